@@ -5,13 +5,13 @@ import { v4 as uuidv4 } from 'uuid';
 import fs from 'fs';
 
 // Ensure upload directory exists
-const uploadDir = process.env.UPLOAD_PATH || './uploads';
+export const uploadDir = process.env.UPLOAD_PATH || './uploads';
 if (!fs.existsSync(uploadDir)) {
   fs.mkdirSync(uploadDir, { recursive: true });
 }
 
 // Allowed file extensions
-const getAllowedTypes = (): string[] => {
+export const getAllowedTypes = (): string[] => {
   const envTypes = process.env.ALLOWED_FILE_TYPES;
   if (envTypes) {
     return envTypes.split(',').map(t => t.trim().toLowerCase());
@@ -57,6 +57,31 @@ export const upload = multer({
   }
 });
 
+// Avatar uploads reuse the disk storage but only accept images
+const avatarTypes = ['.png', '.jpg', '.jpeg', '.gif', '.webp'];
+
+const avatarFileFilter = (_req: Request, file: Express.Multer.File, cb: FileFilterCallback) => {
+  const ext = path.extname(file.originalname).toLowerCase();
+  
+  if (avatarTypes.includes(ext) && file.mimetype.startsWith('image/')) {
+    cb(null, true);
+  } else {
+    cb(new Error(`File type ${ext} is not allowed for avatars. Allowed types: ${avatarTypes.join(', ')}`));
+  }
+};
+
+// Max avatar size (default 5MB)
+const maxAvatarSize = parseInt(process.env.MAX_AVATAR_SIZE || '5242880', 10);
+
+export const avatarUpload = multer({
+  storage,
+  fileFilter: avatarFileFilter,
+  limits: {
+    fileSize: maxAvatarSize,
+    files: 1
+  }
+});
+
 export const getMaxFileSize = (): number => maxSize;
 export const getAllowedFileTypes = getAllowedTypes;
 
@@ -0,0 +1,122 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { RateLimit } from '../models';
+
+interface LimitRecord {
+  // Start of the current burst window (ms)
+  date: number;
+  // Hits left in the burst window and in the whole window; negative once exceeded
+  inner: number;
+  outer: number;
+  // End of the whole window (unix seconds)
+  outerReset: number;
+}
+
+interface RateLimiterOptions {
+  innerLimit: number;
+  innerTimeLimit: number;
+  outerLimit: number;
+  outerTimeLimit: number;
+}
+
+/**
+ * Count one hit against a key and return the updated limits. Every step is
+ * a single atomic update so concurrent requests across API instances can't
+ * overwrite each other's counts.
+ */
+const hitRateLimit = async (key: string, options: RateLimiterOptions): Promise<LimitRecord> => {
+  const now = Date.now();
+  const active = { key, expiresAt: { $gt: new Date(now) } };
+  
+  // Burst window elapsed: start a new one
+  let record = await RateLimit.findOneAndUpdate(
+    { ...active, 'value.date': { $lt: now - options.innerTimeLimit } },
+    {
+      $set: { 'value.date': now, 'value.inner': options.innerLimit - 1 },
+      $inc: { 'value.outer': -1 }
+    },
+    { new: true }
+  ).lean();
+  
+  if (!record) {
+    record = await RateLimit.findOneAndUpdate(
+      active,
+      { $inc: { 'value.inner': -1, 'value.outer': -1 } },
+      { new: true }
+    ).lean();
+  }
+  
+  if (!record) {
+    const value: LimitRecord = {
+      date: now,
+      inner: options.innerLimit - 1,
+      outer: options.outerLimit - 1,
+      outerReset: Math.floor((now + options.outerTimeLimit) / 1000)
+    };
+    
+    try {
+      record = await RateLimit.findOneAndUpdate(
+        { key, expiresAt: { $lte: new Date(now) } },
+        { $set: { value, expiresAt: new Date(now + options.outerTimeLimit) } },
+        { new: true, upsert: true }
+      ).lean();
+    } catch (error) {
+      // Another request created the window first; count against it instead
+      if ((error as { code?: number }).code === 11000) {
+        return hitRateLimit(key, options);
+      }
+      throw error;
+    }
+  }
+  
+  return record!.value as unknown as LimitRecord;
+};
+
+/**
+ * Per-IP rate limiting backed by MongoDB so limits are shared across all
+ * API instances. Allows innerLimit hits per innerTimeLimit and outerLimit
+ * hits per outerTimeLimit.
+ */
+const createRateLimiter = (options: RateLimiterOptions): RequestHandler => {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    let limit: LimitRecord;
+    
+    try {
+      limit = await hitRateLimit(`${req.ip}`, options);
+    } catch (error) {
+      console.error('Rate limit error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Failed to check rate limit'
+      });
+      return;
+    }
+    
+    res.setHeader('X-RateLimit-Limit', options.outerLimit.toString());
+    res.setHeader('X-RateLimit-Remaining', Math.max(limit.outer, 0).toString());
+    res.setHeader('X-RateLimit-Reset', limit.outerReset.toString());
+    
+    if (limit.outer >= 0 && limit.inner >= 0) {
+      next();
+      return;
+    }
+    
+    const now = Date.now();
+    const retryAfterSeconds = limit.outer < 0
+      ? Math.ceil(limit.outerReset - now / 1000)
+      : Math.ceil((limit.date + options.innerTimeLimit - now) / 1000);
+    
+    res.setHeader('Retry-After', Math.max(retryAfterSeconds, 1).toString());
+    res.status(429).json({
+      success: false,
+      error: 'Too many requests. Please try again later.'
+    });
+  };
+};
+
+// Per-IP limiter for credential endpoints (login, 2FA challenge, password reset)
+export const authRateLimiter = createRateLimiter({
+  innerLimit: parseInt(process.env.AUTH_RATE_LIMIT_BURST || '5', 10),
+  innerTimeLimit: 2000,
+  outerLimit: parseInt(process.env.AUTH_RATE_LIMIT_MAX || '30', 10),
+  outerTimeLimit: 10 * 60 * 1000
+});
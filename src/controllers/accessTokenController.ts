@@ -0,0 +1,204 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { AccessToken } from '../models';
+import { AuthRequest, ApiResponse } from '../types';
+import { parseExpiration } from '../utils/helpers';
+import { createAccessToken } from '../services';
+
+/**
+ * List personal access tokens for current user
+ * GET /api/tokens
+ */
+export const getAccessTokens = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const tokens = await AccessToken.find({ user: user._id }).sort({ createdAt: -1 });
+    
+    res.json({
+      success: true,
+      data: tokens
+    });
+  } catch (error) {
+    console.error('Get access tokens error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get access tokens'
+    });
+  }
+};
+
+/**
+ * Create a personal access token
+ * POST /api/tokens
+ */
+export const issueAccessToken = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const { name, scopes, expiresAt } = req.body;
+    
+    const expiration = expiresAt ? parseExpiration(expiresAt) : null;
+    
+    if (expiresAt && !expiration) {
+      res.status(400).json({
+        success: false,
+        error: 'Expiration must be a valid future date'
+      });
+      return;
+    }
+    
+    const { token, accessToken } = await createAccessToken(
+      user._id.toString(),
+      name,
+      scopes,
+      expiration
+    );
+    
+    res.status(201).json({
+      success: true,
+      message: 'Access token created. Copy it now - it will not be shown again.',
+      data: {
+        ...accessToken.toJSON(),
+        token
+      }
+    });
+  } catch (error) {
+    console.error('Create access token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create access token'
+    });
+  }
+};
+
+/**
+ * Rename a personal access token
+ * PATCH /api/tokens/:id
+ */
+export const updateAccessToken = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const user = req.user;
+    const { id } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const accessToken = await AccessToken.findOneAndUpdate(
+      { _id: id, user: user._id },
+      { name: req.body.name },
+      { new: true, runValidators: true }
+    );
+    
+    if (!accessToken) {
+      res.status(404).json({
+        success: false,
+        error: 'Access token not found'
+      });
+      return;
+    }
+    
+    res.json({
+      success: true,
+      message: 'Access token updated',
+      data: accessToken
+    });
+  } catch (error) {
+    console.error('Update access token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update access token'
+    });
+  }
+};
+
+/**
+ * Revoke (delete) a personal access token
+ * DELETE /api/tokens/:id
+ */
+export const revokeAccessToken = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { id } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const result = await AccessToken.deleteOne({ _id: id, user: user._id });
+    
+    if (result.deletedCount === 0) {
+      res.status(404).json({
+        success: false,
+        error: 'Access token not found'
+      });
+      return;
+    }
+    
+    res.json({
+      success: true,
+      message: 'Access token revoked successfully'
+    });
+  } catch (error) {
+    console.error('Revoke access token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke access token'
+    });
+  }
+};
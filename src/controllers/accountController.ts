@@ -0,0 +1,187 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { User } from '../models';
+import { AuthRequest, ApiResponse } from '../types';
+import {
+  scheduleUserDeletion,
+  cancelUserDeletion,
+  createTakeoutArchive,
+  sendAccountDeletionEmail,
+  logAudit
+} from '../services';
+
+/**
+ * Request account deletion. Everything is purged once the grace period ends.
+ * POST /api/auth/me/deletion
+ */
+export const requestAccountDeletion = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const user = await User.findById(req.user._id).select('+password');
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    if (user.deletionScheduledFor) {
+      res.status(409).json({
+        success: false,
+        error: 'Account deletion is already scheduled'
+      });
+      return;
+    }
+    
+    // SSO-provisioned accounts have no usable password
+    if (user.hasPassword) {
+      const isMatch = typeof req.body.password === 'string'
+        && await user.comparePassword(req.body.password);
+      
+      if (!isMatch) {
+        res.status(400).json({
+          success: false,
+          error: 'Password is incorrect'
+        });
+        return;
+      }
+    }
+    
+    const scheduledFor = await scheduleUserDeletion(user);
+    
+    await sendAccountDeletionEmail(user.email, user.name, scheduledFor);
+    
+    await logAudit(user._id.toString(), 'account_deletion_request', {
+      details: { scheduledFor },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Account scheduled for deletion',
+      data: { deletionScheduledFor: scheduledFor }
+    });
+  } catch (error) {
+    console.error('Request account deletion error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to schedule account deletion'
+    });
+  }
+};
+
+/**
+ * Cancel a pending account deletion
+ * DELETE /api/auth/me/deletion
+ */
+export const cancelAccountDeletion = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const cancelled = await cancelUserDeletion(user);
+    
+    if (!cancelled) {
+      res.status(404).json({
+        success: false,
+        error: 'No account deletion is scheduled'
+      });
+      return;
+    }
+    
+    await logAudit(user._id.toString(), 'account_deletion_cancel', {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Account deletion cancelled'
+    });
+  } catch (error) {
+    console.error('Cancel account deletion error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to cancel account deletion'
+    });
+  }
+};
+
+/**
+ * Download a zip of all files plus a JSON manifest of shares and activity
+ * GET /api/auth/me/takeout
+ */
+export const downloadTakeout = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const archive = await createTakeoutArchive(user);
+    
+    archive.on('error', (error) => {
+      console.error('Takeout archive error:', error);
+      res.destroy(error);
+    });
+    
+    await logAudit(user._id.toString(), 'account_export', {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    const date = new Date().toISOString().slice(0, 10);
+    res.attachment(`nuashare-takeout-${date}.zip`);
+    
+    archive.pipe(res);
+    await archive.finalize();
+  } catch (error) {
+    console.error('Takeout error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to export account data'
+      });
+    }
+  }
+};
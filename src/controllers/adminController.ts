@@ -0,0 +1,531 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { File, Share, User } from '../models';
+import { AuthRequest, ApiResponse, AuditAction } from '../types';
+import { escapeRegex } from '../utils/helpers';
+import {
+  getAllAuditLogs,
+  logAudit,
+  revokeAllSessions,
+  revokeAllAccessTokens,
+  issueUserToken,
+  sendPasswordResetEmail,
+  getStorageUsage
+} from '../services';
+
+/**
+ * List and search users
+ * GET /api/admin/users?q=&role=&disabled=
+ */
+export const listUsers = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const skip = (page - 1) * limit;
+    const { q, role, disabled } = req.query;
+    
+    const filter: Record<string, unknown> = {};
+    
+    if (typeof q === 'string' && q.trim()) {
+      const pattern = escapeRegex(q.trim());
+      filter.$or = [
+        { email: { $regex: pattern, $options: 'i' } },
+        { name: { $regex: pattern, $options: 'i' } }
+      ];
+    }
+    if (role === 'user' || role === 'admin') {
+      filter.role = role;
+    }
+    if (disabled === 'true' || disabled === 'false') {
+      filter.isDisabled = disabled === 'true';
+    }
+    
+    const [users, total] = await Promise.all([
+      User.find(filter)
+        .sort({ createdAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      User.countDocuments(filter)
+    ]);
+    
+    res.json({
+      success: true,
+      data: {
+        users,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Admin list users error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get users'
+    });
+  }
+};
+
+/**
+ * Get a user with storage summary
+ * GET /api/admin/users/:id
+ */
+export const getUserDetails = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    
+    const user = await User.findById(id);
+    
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+    
+    const [totalFiles, totalSize, activeShares] = await Promise.all([
+      File.countDocuments({ owner: user._id }),
+      File.aggregate([
+        { $match: { owner: user._id } },
+        { $group: { _id: null, total: { $sum: '$size' } } }
+      ]),
+      Share.countDocuments({ owner: user._id, isActive: true })
+    ]);
+    
+    res.json({
+      success: true,
+      data: {
+        user,
+        stats: {
+          totalFiles,
+          totalSize: totalSize[0]?.total || 0,
+          activeShares,
+          storage: getStorageUsage(user)
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Admin get user error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get user'
+    });
+  }
+};
+
+/**
+ * Change a user's role
+ * PATCH /api/admin/users/:id/role
+ */
+export const updateUserRole = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const admin = req.user;
+    const { id } = req.params;
+    const { role } = req.body;
+    
+    if (!admin) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    if (id === admin._id.toString()) {
+      res.status(400).json({
+        success: false,
+        error: 'You cannot change your own role'
+      });
+      return;
+    }
+    
+    const user = await User.findById(id);
+    
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+    
+    const previousRole = user.role;
+    user.role = role;
+    await user.save();
+    
+    await logAudit(admin._id.toString(), 'admin_role_change', {
+      details: { targetUser: id, from: previousRole, to: role },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'User role updated',
+      data: user
+    });
+  } catch (error) {
+    console.error('Admin update role error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update user role'
+    });
+  }
+};
+
+/**
+ * Set or clear (null) a user's storage quota override
+ * PATCH /api/admin/users/:id/quota
+ */
+export const updateUserQuota = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const admin = req.user;
+    const { id } = req.params;
+    const { quota } = req.body;
+    
+    if (!admin) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const user = await User.findById(id);
+    
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+    
+    const previousQuota = user.storageQuota ?? null;
+    user.storageQuota = quota;
+    await user.save();
+    
+    await logAudit(admin._id.toString(), 'admin_quota_change', {
+      details: { targetUser: id, from: previousQuota, to: quota },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Storage quota updated',
+      data: {
+        user,
+        storage: getStorageUsage(user)
+      }
+    });
+  } catch (error) {
+    console.error('Admin update quota error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update storage quota'
+    });
+  }
+};
+
+/**
+ * Disable a user account and sign it out everywhere
+ * POST /api/admin/users/:id/disable
+ */
+export const disableUser = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const admin = req.user;
+    const { id } = req.params;
+    const { reason } = req.body;
+    
+    if (!admin) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    if (id === admin._id.toString()) {
+      res.status(400).json({
+        success: false,
+        error: 'You cannot disable your own account'
+      });
+      return;
+    }
+    
+    const user = await User.findByIdAndUpdate(
+      id,
+      { isDisabled: true, disabledAt: new Date(), disabledReason: reason },
+      { new: true, runValidators: true }
+    );
+    
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+    
+    await revokeAllSessions(id);
+    
+    await logAudit(admin._id.toString(), 'admin_user_disable', {
+      details: { targetUser: id, reason },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'User disabled',
+      data: user
+    });
+  } catch (error) {
+    console.error('Admin disable user error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to disable user'
+    });
+  }
+};
+
+/**
+ * Re-enable a disabled user account
+ * POST /api/admin/users/:id/enable
+ */
+export const enableUser = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const admin = req.user;
+    const { id } = req.params;
+    
+    if (!admin) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const user = await User.findByIdAndUpdate(
+      id,
+      { isDisabled: false, disabledAt: null, $unset: { disabledReason: '' } },
+      { new: true }
+    );
+    
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+    
+    await logAudit(admin._id.toString(), 'admin_user_enable', {
+      details: { targetUser: id },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'User enabled',
+      data: user
+    });
+  } catch (error) {
+    console.error('Admin enable user error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to enable user'
+    });
+  }
+};
+
+/**
+ * Force a password reset: sign the user out, delete their personal access
+ * tokens and email a reset link. Login is refused until the password has been reset.
+ * POST /api/admin/users/:id/password-reset
+ */
+export const forcePasswordReset = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const admin = req.user;
+    const { id } = req.params;
+    
+    if (!admin) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const user = await User.findByIdAndUpdate(
+      id,
+      { passwordResetRequired: true },
+      { new: true }
+    );
+    
+    if (!user) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+    
+    await revokeAllSessions(id);
+    await revokeAllAccessTokens(id);
+    
+    const ttlMinutes = parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '60', 10);
+    const token = await issueUserToken(id, 'password_reset', ttlMinutes);
+    await sendPasswordResetEmail(user.email, user.name, token);
+    
+    await logAudit(admin._id.toString(), 'admin_password_reset', {
+      details: { targetUser: id },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Password reset required. A reset link has been emailed to the user.'
+    });
+  } catch (error) {
+    console.error('Admin force password reset error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to force password reset'
+    });
+  }
+};
+
+/**
+ * Get any file's metadata and shares
+ * GET /api/admin/files/:id
+ */
+export const getAdminFileDetails = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const { id } = req.params;
+    
+    const file = await File.findById(id).populate('owner', 'name email avatarUrl');
+    
+    if (!file) {
+      res.status(404).json({
+        success: false,
+        error: 'File not found'
+      });
+      return;
+    }
+    
+    const shares = await Share.find({ file: id })
+      .populate('sharedWith', 'name email avatarUrl')
+      .sort({ createdAt: -1 })
+      .lean();
+    
+    res.json({
+      success: true,
+      data: {
+        file,
+        shares
+      }
+    });
+  } catch (error) {
+    console.error('Admin get file error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get file'
+    });
+  }
+};
+
+/**
+ * Read the global audit log
+ * GET /api/admin/audit?userId=&fileId=&action=&from=&to=
+ */
+export const getGlobalAudit = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const { userId, fileId, action, from, to } = req.query;
+    
+    const auditData = await getAllAuditLogs(
+      {
+        userId: userId as string | undefined,
+        fileId: fileId as string | undefined,
+        action: action as AuditAction | undefined,
+        from: from ? new Date(from as string) : undefined,
+        to: to ? new Date(to as string) : undefined
+      },
+      page,
+      limit
+    );
+    
+    res.json({
+      success: true,
+      data: auditData
+    });
+  } catch (error) {
+    console.error('Admin get audit error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get audit logs'
+    });
+  }
+};
@@ -1,6 +1,13 @@
 import { Response } from 'express';
 import { AuthRequest, ApiResponse } from '../types';
-import { getFileAuditLogs, getUserAuditLogs } from '../services';
+import {
+  getFileAuditLogs,
+  getUserAuditLogs,
+  getWorkspaceAuditLogs,
+  getFileAccess,
+  getWorkspaceRole,
+  canEditWorkspace
+} from '../services';
 import { File } from '../models';
 
 /**
@@ -23,7 +30,7 @@ export const getFileAudit = async (
       return;
     }
     
-    // Check if user owns the file
+    // Check if user owns the file or manages it through a workspace
     const file = await File.findById(fileId);
     
     if (!file) {
@@ -34,7 +41,7 @@ export const getFileAudit = async (
       return;
     }
     
-    if (file.owner.toString() !== user._id.toString()) {
+    if (await getFileAccess(file, user._id.toString()) !== 'manage') {
       res.status(403).json({
         success: false,
         error: 'Only the owner can view file audit logs'
@@ -97,3 +104,51 @@ export const getMyAudit = async (
   }
 };
 
+/**
+ * Get audit logs for a workspace
+ * GET /api/audit/workspace/:workspaceId
+ */
+export const getWorkspaceAudit = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { workspaceId } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const role = await getWorkspaceRole(workspaceId, user._id.toString());
+    
+    if (!canEditWorkspace(role)) {
+      res.status(403).json({
+        success: false,
+        error: 'Only workspace owners and editors can view workspace audit logs'
+      });
+      return;
+    }
+    
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    
+    const auditData = await getWorkspaceAuditLogs(workspaceId, page, limit);
+    
+    res.json({
+      success: true,
+      data: auditData
+    });
+  } catch (error) {
+    console.error('Get workspace audit error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get audit logs'
+    });
+  }
+};
+
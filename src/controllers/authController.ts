@@ -1,8 +1,37 @@
 import { Request, Response } from 'express';
 import { validationResult } from 'express-validator';
 import { User } from '../models';
-import { generateToken } from '../utils/helpers';
-import { ApiResponse, AuthRequest } from '../types';
+import { ApiResponse, AuthRequest, IUser } from '../types';
+import { generateChallengeToken } from '../utils/helpers';
+import {
+  createSession,
+  rotateSession,
+  getUserSessions,
+  revokeSession,
+  revokeAllSessions,
+  revokeAllAccessTokens,
+  issueUserToken,
+  consumeUserToken,
+  revokeUserTokens,
+  sendPasswordResetEmail,
+  sendPasswordChangedEmail,
+  sendVerificationEmail,
+  getLoginThrottleStatus,
+  recordLoginFailure,
+  clearLoginFailures,
+  logAudit,
+  searchDirectory,
+  getStorageUsage
+} from '../services';
+
+/**
+ * Issue an email verification token and mail it to the user
+ */
+const sendEmailVerification = async (user: IUser): Promise<void> => {
+  const ttlHours = parseInt(process.env.EMAIL_VERIFICATION_EXPIRES_HOURS || '24', 10);
+  const token = await issueUserToken(user._id.toString(), 'email_verification', ttlHours * 60);
+  await sendVerificationEmail(user.email, user.name, token);
+};
 
 /**
  * Register a new user
@@ -42,19 +71,25 @@ export const register = async (
       name
     });
     
-    // Generate token
-    const token = generateToken(user);
+    await sendEmailVerification(user);
+    
+    // Start a session and issue tokens
+    const tokens = await createSession(user, {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
     
     res.status(201).json({
       success: true,
-      message: 'User registered successfully',
+      message: 'User registered successfully. Please check your email to verify your account.',
       data: {
         user: {
           id: user._id,
           email: user.email,
-          name: user.name
+          name: user.name,
+          emailVerified: user.emailVerified
         },
-        token
+        ...tokens
       }
     });
   } catch (error) {
@@ -90,18 +125,36 @@ export const login = async (
     // Find user with password
     const user = await User.findOne({ email: email.toLowerCase() }).select('+password');
     
-    if (!user) {
-      res.status(401).json({
+    // Refuse attempts while the account or IP is locked out
+    const throttle = await getLoginThrottleStatus(email, req.ip);
+    
+    if (throttle.locked) {
+      await logAudit(user ? user._id.toString() : null, 'login_locked', {
+        details: { email, retryAfterSeconds: throttle.retryAfterSeconds },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+      
+      res.setHeader('Retry-After', throttle.retryAfterSeconds.toString());
+      res.status(429).json({
         success: false,
-        error: 'Invalid email or password'
+        error: `Too many failed login attempts. Try again in ${Math.ceil(throttle.retryAfterSeconds / 60)} minute(s).`,
+        data: { retryAfterSeconds: throttle.retryAfterSeconds }
       });
       return;
     }
     
     // Check password
-    const isMatch = await user.comparePassword(password);
+    const isMatch = user ? await user.comparePassword(password) : false;
     
-    if (!isMatch) {
+    if (!user || !isMatch) {
+      await recordLoginFailure(email, req.ip);
+      await logAudit(user ? user._id.toString() : null, 'login_failed', {
+        details: { email, reason: user ? 'invalid_password' : 'unknown_account' },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+      
       res.status(401).json({
         success: false,
         error: 'Invalid email or password'
@@ -109,8 +162,42 @@ export const login = async (
       return;
     }
     
-    // Generate token
-    const token = generateToken(user);
+    await clearLoginFailures(email);
+    
+    if (user.isDisabled) {
+      res.status(403).json({
+        success: false,
+        error: 'Account has been disabled. Please contact an administrator.'
+      });
+      return;
+    }
+    
+    if (user.passwordResetRequired) {
+      res.status(403).json({
+        success: false,
+        error: 'A password reset is required. Please check your email for a reset link.'
+      });
+      return;
+    }
+    
+    // Second step required - client must complete the challenge
+    if (user.twoFactorEnabled) {
+      res.json({
+        success: true,
+        message: 'Two-factor authentication required',
+        data: {
+          twoFactorRequired: true,
+          challengeToken: generateChallengeToken(user)
+        }
+      });
+      return;
+    }
+    
+    // Start a session and issue tokens
+    const tokens = await createSession(user, {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
     
     res.json({
       success: true,
@@ -119,9 +206,10 @@ export const login = async (
         user: {
           id: user._id,
           email: user.email,
-          name: user.name
+          name: user.name,
+          emailVerified: user.emailVerified
         },
-        token
+        ...tokens
       }
     });
   } catch (error) {
@@ -158,6 +246,14 @@ export const getProfile = async (
         id: user._id,
         email: user.email,
         name: user.name,
+        emailVerified: user.emailVerified,
+        twoFactorEnabled: user.twoFactorEnabled,
+        role: user.role,
+        discoverability: user.discoverability,
+        avatarUrl: user.avatarUrl,
+        avatarSmallUrl: user.avatarSmallUrl,
+        deletionScheduledFor: user.deletionScheduledFor,
+        storage: getStorageUsage(user),
         createdAt: user.createdAt
       }
     });
@@ -171,7 +267,116 @@ export const getProfile = async (
 };
 
 /**
- * Search users by email or name
+ * Update name, email and/or discoverability. A new email must be verified again.
+ * PATCH /api/auth/me
+ */
+export const updateProfile = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const { name, email, currentPassword, discoverability } = req.body;
+    
+    const user = await User.findById(req.user._id).select('+password');
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const newEmail = email ? email.toLowerCase() : undefined;
+    const emailChanged = newEmail !== undefined && newEmail !== user.email;
+    
+    if (emailChanged) {
+      // SSO-provisioned accounts have no usable password
+      if (user.hasPassword) {
+        const isMatch = typeof currentPassword === 'string'
+          && await user.comparePassword(currentPassword);
+        
+        if (!isMatch) {
+          res.status(400).json({
+            success: false,
+            error: 'Current password is required to change your email'
+          });
+          return;
+        }
+      }
+      
+      const existingUser = await User.findOne({ email: newEmail });
+      if (existingUser) {
+        res.status(400).json({
+          success: false,
+          error: 'Email already registered'
+        });
+        return;
+      }
+      
+      user.email = newEmail;
+      user.emailVerified = false;
+      user.emailVerifiedAt = undefined;
+    }
+    
+    if (name !== undefined) {
+      user.name = name;
+    }
+    
+    if (discoverability !== undefined) {
+      user.discoverability = discoverability;
+    }
+    
+    await user.save();
+    
+    if (emailChanged) {
+      await revokeUserTokens(user._id.toString(), 'email_verification');
+      await sendEmailVerification(user);
+    }
+    
+    res.json({
+      success: true,
+      message: emailChanged
+        ? 'Profile updated. Please check your email to verify your new address.'
+        : 'Profile updated',
+      data: {
+        id: user._id,
+        email: user.email,
+        name: user.name,
+        emailVerified: user.emailVerified,
+        discoverability: user.discoverability,
+        avatarUrl: user.avatarUrl,
+        avatarSmallUrl: user.avatarSmallUrl
+      }
+    });
+  } catch (error) {
+    console.error('Update profile error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update profile'
+    });
+  }
+};
+
+/**
+ * Search users by email or name prefix, honoring their discoverability
  * GET /api/auth/users/search?q=query
  */
 export const searchUsers = async (
@@ -180,9 +385,17 @@ export const searchUsers = async (
 ): Promise<void> => {
   try {
     const { q } = req.query;
-    const currentUserId = req.user?._id;
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
     
-    if (!q || typeof q !== 'string' || q.length < 2) {
+    if (!q || typeof q !== 'string' || q.trim().length < 2) {
       res.status(400).json({
         success: false,
         error: 'Search query must be at least 2 characters'
@@ -190,16 +403,7 @@ export const searchUsers = async (
       return;
     }
     
-    const users = await User.find({
-      _id: { $ne: currentUserId },
-      $or: [
-        { email: { $regex: q, $options: 'i' } },
-        { name: { $regex: q, $options: 'i' } }
-      ]
-    })
-      .select('_id email name')
-      .limit(10)
-      .lean();
+    const users = await searchDirectory(user._id.toString(), q);
     
     res.json({
       success: true,
@@ -214,3 +418,455 @@ export const searchUsers = async (
   }
 };
 
+/**
+ * Exchange a refresh token for a new token pair
+ * POST /api/auth/refresh
+ */
+export const refresh = async (
+  req: Request,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const { refreshToken } = req.body;
+    
+    const result = await rotateSession(refreshToken, {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    if (!result) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid or expired refresh token. Please login again.'
+      });
+      return;
+    }
+    
+    res.json({
+      success: true,
+      message: 'Token refreshed',
+      data: result.tokens
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to refresh token'
+    });
+  }
+};
+
+/**
+ * Logout current session
+ * POST /api/auth/logout
+ */
+export const logout = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user || !req.sessionId) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    await revokeSession(req.sessionId, user._id.toString());
+    
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to logout'
+    });
+  }
+};
+
+/**
+ * List active sessions for current user
+ * GET /api/auth/sessions
+ */
+export const getSessions = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const sessions = await getUserSessions(user._id.toString());
+    
+    res.json({
+      success: true,
+      data: sessions.map((session) => ({
+        id: session._id,
+        userAgent: session.userAgent,
+        ipAddress: session.ipAddress,
+        lastSeenAt: session.lastSeenAt,
+        createdAt: session.createdAt,
+        expiresAt: session.expiresAt,
+        current: session._id.toString() === req.sessionId
+      }))
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get sessions'
+    });
+  }
+};
+
+/**
+ * Revoke a session
+ * DELETE /api/auth/sessions/:id
+ */
+export const deleteSession = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { id } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const revoked = await revokeSession(id, user._id.toString());
+    
+    if (!revoked) {
+      res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+      return;
+    }
+    
+    res.json({
+      success: true,
+      message: 'Session revoked successfully'
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to revoke session'
+    });
+  }
+};
+
+/**
+ * Request a password reset email
+ * POST /api/auth/password/forgot
+ */
+export const forgotPassword = async (
+  req: Request,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const { email } = req.body;
+    
+    const user = await User.findOne({ email: email.toLowerCase() });
+    
+    // Only send mail for known accounts, but respond identically either way
+    if (user) {
+      const ttlMinutes = parseInt(process.env.PASSWORD_RESET_EXPIRES_MINUTES || '60', 10);
+      const token = await issueUserToken(user._id.toString(), 'password_reset', ttlMinutes);
+      await sendPasswordResetEmail(user.email, user.name, token);
+    }
+    
+    res.json({
+      success: true,
+      message: 'If an account exists for that email, a reset link has been sent'
+    });
+  } catch (error) {
+    console.error('Forgot password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to request password reset'
+    });
+  }
+};
+
+/**
+ * Reset password using a reset token
+ * POST /api/auth/password/reset
+ */
+export const resetPassword = async (
+  req: Request,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const { token, password } = req.body;
+    
+    const resetToken = await consumeUserToken(token, 'password_reset');
+    
+    if (!resetToken) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid or expired reset token'
+      });
+      return;
+    }
+    
+    const user = await User.findById(resetToken.user);
+    
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid or expired reset token'
+      });
+      return;
+    }
+    
+    user.password = password;
+    user.hasPassword = true;
+    user.passwordResetRequired = false;
+    await user.save();
+    
+    // Sign out everywhere, including API clients
+    await revokeAllSessions(user._id.toString());
+    await revokeAllAccessTokens(user._id.toString());
+    await revokeUserTokens(user._id.toString(), 'password_reset');
+    await sendPasswordChangedEmail(user.email, user.name);
+    
+    res.json({
+      success: true,
+      message: 'Password reset successfully. Please login with your new password.'
+    });
+  } catch (error) {
+    console.error('Reset password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to reset password'
+    });
+  }
+};
+
+/**
+ * Change password for current user
+ * PATCH /api/auth/password
+ */
+export const changePassword = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const { currentPassword, newPassword } = req.body;
+    
+    const user = await User.findById(req.user._id).select('+password');
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const isMatch = await user.comparePassword(currentPassword);
+    
+    if (!isMatch) {
+      res.status(400).json({
+        success: false,
+        error: 'Current password is incorrect'
+      });
+      return;
+    }
+    
+    user.password = newPassword;
+    user.passwordResetRequired = false;
+    await user.save();
+    
+    // Invalidate every existing session and access token, then start a fresh session for this client
+    await revokeAllSessions(user._id.toString());
+    await revokeAllAccessTokens(user._id.toString());
+    await revokeUserTokens(user._id.toString(), 'password_reset');
+    const tokens = await createSession(user, {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    await sendPasswordChangedEmail(user.email, user.name);
+    
+    res.json({
+      success: true,
+      message: 'Password changed successfully',
+      data: tokens
+    });
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to change password'
+    });
+  }
+};
+
+/**
+ * Verify email address using a verification token
+ * POST /api/auth/email/verify
+ */
+export const verifyEmail = async (
+  req: Request,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const { token } = req.body;
+    
+    const verificationToken = await consumeUserToken(token, 'email_verification');
+    
+    if (!verificationToken) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid or expired verification token'
+      });
+      return;
+    }
+    
+    const user = await User.findByIdAndUpdate(
+      verificationToken.user,
+      { emailVerified: true, emailVerifiedAt: new Date() },
+      { new: true }
+    );
+    
+    if (!user) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid or expired verification token'
+      });
+      return;
+    }
+    
+    res.json({
+      success: true,
+      message: 'Email verified successfully',
+      data: {
+        id: user._id,
+        email: user.email,
+        emailVerified: user.emailVerified
+      }
+    });
+  } catch (error) {
+    console.error('Verify email error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify email'
+    });
+  }
+};
+
+/**
+ * Resend email verification link
+ * POST /api/auth/email/resend
+ */
+export const resendVerification = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    if (user.emailVerified) {
+      res.status(400).json({
+        success: false,
+        error: 'Email is already verified'
+      });
+      return;
+    }
+    
+    await sendEmailVerification(user);
+    
+    res.json({
+      success: true,
+      message: 'Verification email sent'
+    });
+  } catch (error) {
+    console.error('Resend verification error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to send verification email'
+    });
+  }
+};
+
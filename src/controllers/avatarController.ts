@@ -0,0 +1,133 @@
+import { Request, Response } from 'express';
+import { AuthRequest, ApiResponse } from '../types';
+import { sendAvatarImage } from '../utils/streaming';
+import { setUserAvatar, removeUserAvatar, findAvatarImage } from '../services';
+
+/**
+ * Upload an avatar image. It is cropped to a square and stored in fixed sizes.
+ * PUT /api/auth/me/avatar
+ */
+export const uploadAvatar = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    if (!req.file) {
+      res.status(400).json({
+        success: false,
+        error: 'No image uploaded'
+      });
+      return;
+    }
+    
+    let updated;
+    try {
+      updated = await setUserAvatar(user, req.file.path);
+    } catch (error) {
+      console.error('Avatar processing error:', error);
+      res.status(400).json({
+        success: false,
+        error: 'Could not process image'
+      });
+      return;
+    }
+    
+    res.json({
+      success: true,
+      message: 'Avatar updated',
+      data: {
+        avatarUrl: updated?.avatarUrl,
+        avatarSmallUrl: updated?.avatarSmallUrl
+      }
+    });
+  } catch (error) {
+    console.error('Upload avatar error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update avatar'
+    });
+  }
+};
+
+/**
+ * Remove the current avatar
+ * DELETE /api/auth/me/avatar
+ */
+export const deleteAvatar = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const removed = await removeUserAvatar(user);
+    
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        error: 'No avatar set'
+      });
+      return;
+    }
+    
+    res.json({
+      success: true,
+      message: 'Avatar removed'
+    });
+  } catch (error) {
+    console.error('Delete avatar error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove avatar'
+    });
+  }
+};
+
+/**
+ * Serve an avatar image. Public, like the profiles that link to it.
+ * GET /api/avatars/:name
+ */
+export const getAvatarImage = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  try {
+    const image = await findAvatarImage(req.params.name);
+    
+    if (!image) {
+      res.status(404).json({
+        success: false,
+        error: 'Avatar not found'
+      });
+      return;
+    }
+    
+    await sendAvatarImage(res, image.storage, image.key);
+  } catch (error) {
+    console.error('Get avatar error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get avatar'
+      });
+    }
+  }
+};
@@ -0,0 +1,100 @@
+import { Response } from 'express';
+import { Contact } from '../models';
+import { AuthRequest, ApiResponse } from '../types';
+import { removeContactPair } from '../services';
+
+/**
+ * List the current user's contacts (people they have shared files with)
+ * GET /api/contacts
+ */
+export const getContacts = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const skip = (page - 1) * limit;
+    
+    const [contacts, total] = await Promise.all([
+      Contact.find({ owner: user._id })
+        .populate('contact', 'name email avatarUrl')
+        .sort({ lastInteractionAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      Contact.countDocuments({ owner: user._id })
+    ]);
+    
+    res.json({
+      success: true,
+      data: {
+        // Skip contacts whose account has since been deleted
+        contacts: contacts.filter((c) => c.contact),
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get contacts error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get contacts'
+    });
+  }
+};
+
+/**
+ * Remove someone from the current user's contacts, and the user from theirs
+ * DELETE /api/contacts/:userId
+ */
+export const removeContact = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { userId } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const removed = await removeContactPair(user._id.toString(), userId);
+    
+    if (!removed) {
+      res.status(404).json({
+        success: false,
+        error: 'Contact not found'
+      });
+      return;
+    }
+    
+    res.json({
+      success: true,
+      message: 'Contact removed successfully'
+    });
+  } catch (error) {
+    console.error('Remove contact error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove contact'
+    });
+  }
+};
@@ -1,9 +1,72 @@
 import { Response } from 'express';
+import { validationResult } from 'express-validator';
 import fs from 'fs';
-import { File, Share } from '../models';
+import { isValidObjectId, Types } from 'mongoose';
+import { File, Folder, Share } from '../models';
 import { AuthRequest, ApiResponse } from '../types';
-import { generateFileUrl } from '../utils/helpers';
-import { compressFile, logAudit } from '../services';
+import { AppError } from '../middleware/errorHandler';
+import { streamFileInline, sendFileDownload, sendThumbnail } from '../utils/streaming';
+import {
+  logAudit,
+  logAuditOnce,
+  getWorkspaceRole,
+  getFileAccess,
+  isSameSpace,
+  removeFiles,
+  trashFiles,
+  restoreTrashedFile,
+  getTrashPurgeDate,
+  resolveUploadTarget,
+  assertStorageAvailable,
+  verifyUploadContent,
+  getStorageUsage,
+  storeUploadedFile,
+  searchAccessibleFiles,
+  normalizeTag,
+  getScanRefusal
+} from '../services';
+
+/**
+ * Build the file filter for the personal space, or for a workspace
+ * when ?workspaceId= is given. ?folderId= narrows it to one folder
+ * ('root' for files outside any folder). Trashed files are excluded.
+ * Returns null if the user has no access.
+ */
+const getFileScope = async (
+  userId: Types.ObjectId,
+  workspaceId: unknown,
+  folderId: unknown
+): Promise<Record<string, unknown> | null> => {
+  if (typeof folderId === 'string' && folderId && folderId !== 'root') {
+    const folder = isValidObjectId(folderId) ? await Folder.findById(folderId) : null;
+    const access = folder ? await getFileAccess(folder, userId.toString()) : null;
+    
+    return folder && access ? { folder: folder._id, deletedAt: null } : null;
+  }
+  
+  const rootOnly = folderId === 'root' ? { folder: null } : {};
+  
+  if (typeof workspaceId !== 'string' || !workspaceId) {
+    return { owner: userId, workspace: null, deletedAt: null, ...rootOnly };
+  }
+  
+  const role = await getWorkspaceRole(workspaceId, userId.toString());
+  
+  return role
+    ? { workspace: new Types.ObjectId(workspaceId), deletedAt: null, ...rootOnly }
+    : null;
+};
+
+/**
+ * Remove uploaded files that were rejected
+ */
+const discardUploads = (files: Express.Multer.File[]): void => {
+  for (const file of files) {
+    if (fs.existsSync(file.path)) {
+      fs.unlinkSync(file.path);
+    }
+  }
+};
 
 /**
  * Upload files (single or bulk)
@@ -33,42 +96,55 @@ export const uploadFiles = async (
       return;
     }
     
-    const uploadedFiles = [];
+    const context = { ipAddress: req.ip, userAgent: req.headers['user-agent'] };
     
-    for (const file of files) {
-      // Compress file if applicable
-      const compressionResult = await compressFile(
-        file.path,
-        file.mimetype,
-        file.originalname
+    // Optional target workspace and folder (multipart fields)
+    let target;
+    const uploads = [];
+    try {
+      target = await resolveUploadTarget(
+        user._id.toString(),
+        req.body.workspaceId || undefined,
+        req.body.folderId || undefined
       );
       
-      const fileDoc = await File.create({
-        filename: file.filename,
-        originalName: file.originalname,
-        mimeType: file.mimetype,
-        size: compressionResult.success ? compressionResult.compressedSize : file.size,
-        path: file.path,
-        url: generateFileUrl(file.filename),
-        owner: user._id,
-        isCompressed: compressionResult.success,
-        originalSize: compressionResult.success ? compressionResult.originalSize : undefined
-      });
+      // All or nothing: refuse the batch if it does not fit in the quota
+      // or any file is not what its extension claims
+      await assertStorageAvailable(
+        user._id.toString(),
+        files.reduce((total, file) => total + file.size, 0)
+      );
       
-      uploadedFiles.push(fileDoc);
+      for (const file of files) {
+        uploads.push(await verifyUploadContent(
+          {
+            originalName: file.originalname,
+            mimeType: file.mimetype,
+            size: file.size,
+            path: file.path
+          },
+          user._id.toString(),
+          context
+        ));
+      }
+    } catch (error) {
+      discardUploads(files);
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+      throw error;
+    }
+    
+    const uploadedFiles = [];
+    
+    for (const upload of uploads) {
+      const fileDoc = await storeUploadedFile(upload, user._id.toString(), target, context);
       
-      // Log audit
-      await logAudit(user._id.toString(), 'file_upload', {
-        fileId: fileDoc._id.toString(),
-        details: {
-          filename: file.originalname,
-          size: file.size,
-          compressed: compressionResult.success,
-          compressionRatio: compressionResult.compressionRatio
-        },
-        ipAddress: req.ip,
-        userAgent: req.headers['user-agent']
-      });
+      uploadedFiles.push(fileDoc);
     }
     
     res.status(201).json({
@@ -78,6 +154,14 @@ export const uploadFiles = async (
     });
   } catch (error) {
     console.error('Upload error:', error);
+    discardUploads((req.files as Express.Multer.File[]) || []);
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
     res.status(500).json({
       success: false,
       error: 'Failed to upload files'
@@ -86,8 +170,9 @@ export const uploadFiles = async (
 };
 
 /**
- * Get user's files
- * GET /api/files
+ * Get user's personal files, or a workspace's files, optionally within a folder.
+ * Repeat ?tag= to only list files that have every given tag.
+ * GET /api/files?workspaceId=&folderId=&tag=
  */
 export const getMyFiles = async (
   req: AuthRequest,
@@ -109,13 +194,33 @@ export const getMyFiles = async (
     const sortOrder = req.query.sortOrder === 'asc' ? 1 : -1;
     const skip = (page - 1) * limit;
     
+    const filter = await getFileScope(user._id, req.query.workspaceId, req.query.folderId);
+    
+    if (!filter) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have access to these files'
+      });
+      return;
+    }
+    
+    const tags = ([] as unknown[])
+      .concat(req.query.tag ?? [])
+      .filter((tag): tag is string => typeof tag === 'string' && tag.trim() !== '')
+      .map(normalizeTag);
+    
+    if (tags.length > 0) {
+      filter.tags = { $all: tags };
+    }
+    
     const [files, total] = await Promise.all([
-      File.find({ owner: user._id })
+      File.find(filter)
+        .populate('owner', 'name email avatarUrl')
         .sort({ [sortBy]: sortOrder })
         .skip(skip)
         .limit(limit)
         .lean(),
-      File.countDocuments({ owner: user._id })
+      File.countDocuments(filter)
     ]);
     
     res.json({
@@ -137,6 +242,67 @@ export const getMyFiles = async (
   }
 };
 
+/**
+ * Search files the user can open by name, tags and content, best matches first
+ * GET /api/files/search?q=&type=&minSize=&maxSize=&from=&to=
+ */
+export const searchFiles = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const user = req.user;
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const { q, type, minSize, maxSize, from, to } = req.query;
+    
+    const { files, total } = await searchAccessibleFiles(user._id.toString(), {
+      query: q as string,
+      type: type as string | undefined,
+      minSize: minSize !== undefined ? Number(minSize) : undefined,
+      maxSize: maxSize !== undefined ? Number(maxSize) : undefined,
+      from: from ? new Date(from as string) : undefined,
+      to: to ? new Date(to as string) : undefined,
+      page,
+      limit
+    });
+    
+    res.json({
+      success: true,
+      data: {
+        files,
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Search files error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to search files'
+    });
+  }
+};
+
 /**
  * Get shared files (files shared with the user)
  * GET /api/files/shared
@@ -159,32 +325,33 @@ export const getSharedWithMe = async (
     const limit = parseInt(req.query.limit as string) || 20;
     const skip = (page - 1) * limit;
     
+    const activeShares = {
+      sharedWith: user._id,
+      shareType: 'user',
+      isActive: true,
+      $or: [
+        { expiresAt: null },
+        { expiresAt: { $gt: new Date() } }
+      ]
+    };
+    
+    // Leave out files the malware scanner has not found clean
+    const cleanFileIds = await File.distinct('_id', {
+      _id: { $in: await Share.distinct('file', activeShares) },
+      scanStatus: 'clean'
+    });
+    const visibleShares = { ...activeShares, file: { $in: cleanFileIds } };
+    
     // Find all active shares for this user
     const [shares, total] = await Promise.all([
-      Share.find({
-        sharedWith: user._id,
-        shareType: 'user',
-        isActive: true,
-        $or: [
-          { expiresAt: null },
-          { expiresAt: { $gt: new Date() } }
-        ]
-      })
+      Share.find(visibleShares)
         .populate('file')
-        .populate('owner', 'name email')
+        .populate('owner', 'name email avatarUrl')
         .sort({ createdAt: -1 })
         .skip(skip)
         .limit(limit)
         .lean(),
-      Share.countDocuments({
-        sharedWith: user._id,
-        shareType: 'user',
-        isActive: true,
-        $or: [
-          { expiresAt: null },
-          { expiresAt: { $gt: new Date() } }
-        ]
-      })
+      Share.countDocuments(visibleShares)
     ]);
     
     res.json({
@@ -226,7 +393,8 @@ export const getFileById = async (
       return;
     }
     
-    const file = await File.findById(id).populate('owner', 'name email');
+    const file = await File.findOne({ _id: id, deletedAt: null })
+      .populate('owner', 'name email avatarUrl');
     
     if (!file) {
       res.status(404).json({
@@ -236,10 +404,10 @@ export const getFileById = async (
       return;
     }
     
-    // Check if user is owner or has access
-    const isOwner = file.owner._id.toString() === user._id.toString();
+    // Check if user is owner, a workspace member or has access
+    const access = await getFileAccess(file, user._id.toString());
     
-    if (!isOwner) {
+    if (!access) {
       // Check for share access
       const share = await Share.findOne({
         file: id,
@@ -259,11 +427,21 @@ export const getFileById = async (
         });
         return;
       }
+      
+      // Share recipients only see files found clean
+      if (file.scanStatus !== 'clean') {
+        res.status(403).json({
+          success: false,
+          error: getScanRefusal(file.scanStatus)
+        });
+        return;
+      }
     }
     
     // Log view
     await logAudit(user._id.toString(), 'file_view', {
       fileId: id,
+      workspaceId: file.workspace?.toString(),
       ipAddress: req.ip,
       userAgent: req.headers['user-agent']
     });
@@ -301,7 +479,7 @@ export const downloadFile = async (
       return;
     }
     
-    const file = await File.findById(id);
+    const file = await File.findOne({ _id: id, deletedAt: null });
     
     if (!file) {
       res.status(404).json({
@@ -311,10 +489,10 @@ export const downloadFile = async (
       return;
     }
     
-    // Check if user is owner or has download access
-    const isOwner = file.owner.toString() === user._id.toString();
+    // Check if user is owner, a workspace member or has download access
+    const access = await getFileAccess(file, user._id.toString());
     
-    if (!isOwner) {
+    if (!access) {
       const share = await Share.findOne({
         file: id,
         sharedWith: user._id,
@@ -336,37 +514,305 @@ export const downloadFile = async (
       }
     }
     
-    // Check if file exists on disk
-    if (!fs.existsSync(file.path)) {
+    if (!await sendFileDownload(res, file)) {
+      return;
+    }
+    
+    // Log download
+    await logAudit(user._id.toString(), 'file_download', {
+      fileId: id,
+      workspaceId: file.workspace?.toString(),
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+  } catch (error) {
+    console.error('Download error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to download file'
+      });
+    }
+  }
+};
+
+/**
+ * Stream a file inline with Range support (media playback and seeking)
+ * GET /api/files/:id/stream
+ */
+export const streamFile = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { id } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const file = await File.findOne({ _id: id, deletedAt: null });
+    
+    if (!file) {
       res.status(404).json({
         success: false,
-        error: 'File not found on server'
+        error: 'File not found'
       });
       return;
     }
     
-    // Log download
-    await logAudit(user._id.toString(), 'file_download', {
+    // Same rules as downloads: owner, workspace member or a download share
+    const access = await getFileAccess(file, user._id.toString());
+    
+    if (!access) {
+      const share = await Share.findOne({
+        file: id,
+        sharedWith: user._id,
+        shareType: 'user',
+        permission: 'download',
+        isActive: true,
+        $or: [
+          { expiresAt: null },
+          { expiresAt: { $gt: new Date() } }
+        ]
+      });
+      
+      if (!share) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied. You do not have download permission.'
+        });
+        return;
+      }
+    }
+    
+    const start = await streamFileInline(req, res, file);
+    
+    // Players send many range requests; log the playback once
+    if (start === 0) {
+      await logAuditOnce(user._id.toString(), 'file_download', {
+        fileId: id,
+        workspaceId: file.workspace?.toString(),
+        details: { stream: true },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+    }
+  } catch (error) {
+    console.error('Stream error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to stream file'
+      });
+    }
+  }
+};
+
+/**
+ * Get an image thumbnail. Anyone who can view the file can see it.
+ * GET /api/files/:id/thumbnail?size=&format=
+ */
+export const getFileThumbnail = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { id } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const file = await File.findOne({ _id: id, deletedAt: null });
+    
+    if (!file) {
+      res.status(404).json({
+        success: false,
+        error: 'File not found'
+      });
+      return;
+    }
+    
+    const access = await getFileAccess(file, user._id.toString());
+    
+    if (!access) {
+      const share = await Share.findOne({
+        file: id,
+        sharedWith: user._id,
+        shareType: 'user',
+        isActive: true,
+        $or: [
+          { expiresAt: null },
+          { expiresAt: { $gt: new Date() } }
+        ]
+      });
+      
+      if (!share) {
+        res.status(403).json({
+          success: false,
+          error: 'Access denied'
+        });
+        return;
+      }
+    }
+    
+    await sendThumbnail(req, res, file);
+  } catch (error) {
+    console.error('Get thumbnail error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get thumbnail'
+      });
+    }
+  }
+};
+
+/**
+ * Move a file to the trash. Its shares stop working until it is restored.
+ * DELETE /api/files/:id
+ */
+export const deleteFile = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { id } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const file = await File.findOne({ _id: id, deletedAt: null });
+    
+    if (!file) {
+      res.status(404).json({
+        success: false,
+        error: 'File not found'
+      });
+      return;
+    }
+    
+    // Only the owner or workspace owners/editors can delete
+    if (await getFileAccess(file, user._id.toString()) !== 'manage') {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to delete this file'
+      });
+      return;
+    }
+    
+    await trashFiles([file], user._id.toString());
+    
+    // Log deletion
+    await logAudit(user._id.toString(), 'file_delete', {
       fileId: id,
+      workspaceId: file.workspace?.toString(),
+      details: { filename: file.originalName, trashed: true },
       ipAddress: req.ip,
       userAgent: req.headers['user-agent']
     });
     
-    res.download(file.path, file.originalName);
+    res.json({
+      success: true,
+      message: 'File moved to trash'
+    });
   } catch (error) {
-    console.error('Download error:', error);
+    console.error('Delete file error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to download file'
+      error: 'Failed to delete file'
     });
   }
 };
 
 /**
- * Delete file
- * DELETE /api/files/:id
+ * List trashed files of the personal space or a workspace
+ * GET /api/files/trash?workspaceId=
  */
-export const deleteFile = async (
+export const getTrash = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+    const skip = (page - 1) * limit;
+    
+    const scope = await getFileScope(user._id, req.query.workspaceId, undefined);
+    
+    if (!scope) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have access to these files'
+      });
+      return;
+    }
+    
+    const filter = { ...scope, deletedAt: { $ne: null } };
+    
+    const [files, total] = await Promise.all([
+      File.find(filter)
+        .populate('deletedBy', 'name email avatarUrl')
+        .sort({ deletedAt: -1 })
+        .skip(skip)
+        .limit(limit)
+        .lean(),
+      File.countDocuments(filter)
+    ]);
+    
+    res.json({
+      success: true,
+      data: {
+        files: files.map((file) => ({
+          ...file,
+          purgeAt: getTrashPurgeDate(file.deletedAt as Date)
+        })),
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Get trash error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get trash'
+    });
+  }
+};
+
+/**
+ * Restore a file from the trash and reactivate its shares
+ * POST /api/files/:id/restore
+ */
+export const restoreFile = async (
   req: AuthRequest,
   res: Response<ApiResponse>
 ): Promise<void> => {
@@ -382,39 +828,91 @@ export const deleteFile = async (
       return;
     }
     
-    const file = await File.findById(id);
+    const file = await File.findOne({ _id: id, deletedAt: { $ne: null } });
     
     if (!file) {
       res.status(404).json({
         success: false,
-        error: 'File not found'
+        error: 'File not found in trash'
       });
       return;
     }
     
-    // Only owner can delete
-    if (file.owner.toString() !== user._id.toString()) {
+    if (await getFileAccess(file, user._id.toString()) !== 'manage') {
       res.status(403).json({
         success: false,
-        error: 'Only the owner can delete this file'
+        error: 'You do not have permission to restore this file'
       });
       return;
     }
     
-    // Delete file from disk
-    if (fs.existsSync(file.path)) {
-      fs.unlinkSync(file.path);
+    await restoreTrashedFile(file);
+    
+    await logAudit(user._id.toString(), 'file_restore', {
+      fileId: id,
+      workspaceId: file.workspace?.toString(),
+      details: { filename: file.originalName },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'File restored',
+      data: file
+    });
+  } catch (error) {
+    console.error('Restore file error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to restore file'
+    });
+  }
+};
+
+/**
+ * Permanently delete a file with its versions and shares
+ * DELETE /api/files/:id/permanent
+ */
+export const deleteFilePermanently = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { id } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
     }
     
-    // Delete all shares for this file
-    await Share.deleteMany({ file: id });
+    const file = await File.findById(id);
     
-    // Delete file document
-    await file.deleteOne();
+    if (!file) {
+      res.status(404).json({
+        success: false,
+        error: 'File not found'
+      });
+      return;
+    }
     
-    // Log deletion
-    await logAudit(user._id.toString(), 'file_delete', {
+    if (await getFileAccess(file, user._id.toString()) !== 'manage') {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to delete this file'
+      });
+      return;
+    }
+    
+    await removeFiles([file]);
+    
+    await logAudit(user._id.toString(), 'file_purge', {
       fileId: id,
+      workspaceId: file.workspace?.toString(),
       details: { filename: file.originalName },
       ipAddress: req.ip,
       userAgent: req.headers['user-agent']
@@ -422,10 +920,10 @@ export const deleteFile = async (
     
     res.json({
       success: true,
-      message: 'File deleted successfully'
+      message: 'File permanently deleted'
     });
   } catch (error) {
-    console.error('Delete file error:', error);
+    console.error('Permanent delete error:', error);
     res.status(500).json({
       success: false,
       error: 'Failed to delete file'
@@ -434,8 +932,103 @@ export const deleteFile = async (
 };
 
 /**
- * Get file statistics
- * GET /api/files/stats
+ * Move a file into a folder, or to the root with folderId: null
+ * POST /api/files/:id/move
+ */
+export const moveFile = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const user = req.user;
+    const { id } = req.params;
+    const { folderId } = req.body;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const file = await File.findOne({ _id: id, deletedAt: null });
+    
+    if (!file) {
+      res.status(404).json({
+        success: false,
+        error: 'File not found'
+      });
+      return;
+    }
+    
+    if (await getFileAccess(file, user._id.toString()) !== 'manage') {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to move this file'
+      });
+      return;
+    }
+    
+    let folder = null;
+    
+    if (folderId) {
+      folder = isValidObjectId(folderId) ? await Folder.findById(folderId) : null;
+      
+      if (!folder || await getFileAccess(folder, user._id.toString()) !== 'manage') {
+        res.status(404).json({
+          success: false,
+          error: 'Folder not found'
+        });
+        return;
+      }
+      
+      if (!isSameSpace(file, folder)) {
+        res.status(400).json({
+          success: false,
+          error: 'Files cannot be moved between workspaces'
+        });
+        return;
+      }
+    }
+    
+    file.folder = folder ? folder._id : null;
+    await file.save();
+    
+    await logAudit(user._id.toString(), 'file_move', {
+      fileId: id,
+      workspaceId: file.workspace?.toString(),
+      details: { folder: folder?._id.toString() || null },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'File moved',
+      data: file
+    });
+  } catch (error) {
+    console.error('Move file error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to move file'
+    });
+  }
+};
+
+/**
+ * Get file statistics for the personal space, a workspace or a folder
+ * GET /api/files/stats?workspaceId=&folderId=
  */
 export const getFileStats = async (
   req: AuthRequest,
@@ -452,24 +1045,41 @@ export const getFileStats = async (
       return;
     }
     
+    const filter = await getFileScope(user._id, req.query.workspaceId, req.query.folderId);
+    
+    if (!filter) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have access to these files'
+      });
+      return;
+    }
+    
     const [
       totalFiles,
       totalSize,
+      physicalSize,
       filesByType,
       recentFiles
     ] = await Promise.all([
-      File.countDocuments({ owner: user._id }),
+      File.countDocuments(filter),
+      File.aggregate([
+        { $match: filter },
+        { $group: { _id: null, total: { $sum: '$size' } } }
+      ]),
+      // Identical content is stored once, so count each blob once
       File.aggregate([
-        { $match: { owner: user._id } },
+        { $match: filter },
+        { $group: { _id: '$blob', size: { $first: '$size' } } },
         { $group: { _id: null, total: { $sum: '$size' } } }
       ]),
       File.aggregate([
-        { $match: { owner: user._id } },
+        { $match: filter },
         { $group: { _id: '$mimeType', count: { $sum: 1 } } },
         { $sort: { count: -1 } },
         { $limit: 5 }
       ]),
-      File.find({ owner: user._id })
+      File.find(filter)
         .sort({ createdAt: -1 })
         .limit(5)
         .lean()
@@ -480,6 +1090,10 @@ export const getFileStats = async (
       data: {
         totalFiles,
         totalSize: totalSize[0]?.total || 0,
+        logicalSize: totalSize[0]?.total || 0,
+        physicalSize: physicalSize[0]?.total || 0,
+        // The signed-in user's quota, whichever space is listed
+        quota: getStorageUsage(user),
         filesByType,
         recentFiles
       }
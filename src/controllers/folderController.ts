@@ -0,0 +1,505 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { isValidObjectId, Types } from 'mongoose';
+import { Folder } from '../models';
+import { AuthRequest, ApiResponse, IFolder } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import {
+  getFileAccess,
+  getWorkspaceRole,
+  canEditWorkspace,
+  getFolderPath,
+  moveFolderTo,
+  deleteFolderTree,
+  logAudit
+} from '../services';
+
+/**
+ * Find a folder with the same name in the same place
+ */
+const findSibling = async (
+  name: string,
+  parent: Types.ObjectId | null,
+  workspace: Types.ObjectId | null,
+  ownerId: Types.ObjectId
+): Promise<IFolder | null> => {
+  return Folder.findOne({
+    name,
+    parent,
+    workspace,
+    // Personal spaces are per user
+    ...(workspace ? {} : { owner: ownerId })
+  });
+};
+
+/**
+ * Load a folder by ID. Returns null for invalid or unknown IDs.
+ */
+const findFolder = async (id: unknown): Promise<IFolder | null> => {
+  if (typeof id !== 'string' || !isValidObjectId(id)) {
+    return null;
+  }
+  return Folder.findById(id);
+};
+
+/**
+ * Create a folder in the personal space, a workspace, or inside another folder
+ * POST /api/folders
+ */
+export const createFolder = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const { name, parentId, workspaceId } = req.body;
+    
+    let parent: IFolder | null = null;
+    let workspace: Types.ObjectId | null = null;
+    
+    if (parentId) {
+      parent = await findFolder(parentId);
+      const parentAccess = parent ? await getFileAccess(parent, user._id.toString()) : null;
+      
+      if (!parent || !parentAccess) {
+        res.status(404).json({
+          success: false,
+          error: 'Parent folder not found'
+        });
+        return;
+      }
+      
+      if (parentAccess !== 'manage') {
+        res.status(403).json({
+          success: false,
+          error: 'You do not have permission to create folders here'
+        });
+        return;
+      }
+      
+      workspace = parent.workspace || null;
+    } else if (workspaceId) {
+      const role = await getWorkspaceRole(workspaceId, user._id.toString());
+      
+      if (!canEditWorkspace(role)) {
+        res.status(403).json({
+          success: false,
+          error: 'You do not have permission to create folders here'
+        });
+        return;
+      }
+      
+      workspace = new Types.ObjectId(workspaceId as string);
+    }
+    
+    if (await findSibling(name, parent?._id || null, workspace, user._id)) {
+      res.status(409).json({
+        success: false,
+        error: 'A folder with this name already exists here'
+      });
+      return;
+    }
+    
+    const folder = await Folder.create({
+      name,
+      owner: user._id,
+      workspace,
+      parent: parent?._id || null,
+      ancestors: parent ? [...parent.ancestors, parent._id] : []
+    });
+    
+    await logAudit(user._id.toString(), 'folder_create', {
+      workspaceId: workspace?.toString(),
+      details: { folder: folder._id.toString(), name },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.status(201).json({
+      success: true,
+      message: 'Folder created successfully',
+      data: folder
+    });
+  } catch (error) {
+    console.error('Create folder error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create folder'
+    });
+  }
+};
+
+/**
+ * List subfolders of a folder, or the root folders of the personal space / a workspace
+ * GET /api/folders?parentId=&workspaceId=
+ */
+export const getFolders = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { parentId, workspaceId } = req.query;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    let filter: Record<string, unknown>;
+    
+    if (parentId) {
+      const parent = await findFolder(parentId);
+      
+      if (!parent || !await getFileAccess(parent, user._id.toString())) {
+        res.status(404).json({
+          success: false,
+          error: 'Folder not found'
+        });
+        return;
+      }
+      
+      filter = { parent: parent._id };
+    } else if (typeof workspaceId === 'string' && workspaceId) {
+      const role = await getWorkspaceRole(workspaceId, user._id.toString());
+      
+      if (!role) {
+        res.status(403).json({
+          success: false,
+          error: 'You are not a member of this workspace'
+        });
+        return;
+      }
+      
+      filter = { workspace: workspaceId, parent: null };
+    } else {
+      filter = { owner: user._id, workspace: null, parent: null };
+    }
+    
+    const folders = await Folder.find(filter).sort({ name: 1 }).lean();
+    
+    res.json({
+      success: true,
+      data: folders
+    });
+  } catch (error) {
+    console.error('Get folders error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get folders'
+    });
+  }
+};
+
+/**
+ * Get a folder with its breadcrumb path
+ * GET /api/folders/:id
+ */
+export const getFolder = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const folder = await findFolder(req.params.id);
+    const access = folder ? await getFileAccess(folder, user._id.toString()) : null;
+    
+    if (!folder || !access) {
+      res.status(404).json({
+        success: false,
+        error: 'Folder not found'
+      });
+      return;
+    }
+    
+    const path = await getFolderPath(folder);
+    
+    res.json({
+      success: true,
+      data: {
+        ...folder.toJSON(),
+        path,
+        access
+      }
+    });
+  } catch (error) {
+    console.error('Get folder error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get folder'
+    });
+  }
+};
+
+/**
+ * Rename a folder
+ * PATCH /api/folders/:id
+ */
+export const renameFolder = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const user = req.user;
+    const { name } = req.body;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const folder = await findFolder(req.params.id);
+    const access = folder ? await getFileAccess(folder, user._id.toString()) : null;
+    
+    if (!folder || !access) {
+      res.status(404).json({
+        success: false,
+        error: 'Folder not found'
+      });
+      return;
+    }
+    
+    if (access !== 'manage') {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to rename this folder'
+      });
+      return;
+    }
+    
+    const sibling = await findSibling(name, folder.parent || null, folder.workspace || null, folder.owner);
+    
+    if (sibling && !sibling._id.equals(folder._id)) {
+      res.status(409).json({
+        success: false,
+        error: 'A folder with this name already exists here'
+      });
+      return;
+    }
+    
+    folder.name = name;
+    await folder.save();
+    
+    res.json({
+      success: true,
+      message: 'Folder renamed',
+      data: folder
+    });
+  } catch (error) {
+    console.error('Rename folder error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to rename folder'
+    });
+  }
+};
+
+/**
+ * Move a folder under another folder, or to the root with parentId: null
+ * POST /api/folders/:id/move
+ */
+export const moveFolder = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const user = req.user;
+    const { parentId } = req.body;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const folder = await findFolder(req.params.id);
+    const access = folder ? await getFileAccess(folder, user._id.toString()) : null;
+    
+    if (!folder || !access) {
+      res.status(404).json({
+        success: false,
+        error: 'Folder not found'
+      });
+      return;
+    }
+    
+    let parent: IFolder | null = null;
+    let parentAccess = null;
+    
+    if (parentId) {
+      parent = await findFolder(parentId);
+      parentAccess = parent ? await getFileAccess(parent, user._id.toString()) : null;
+      
+      if (!parent || !parentAccess) {
+        res.status(404).json({
+          success: false,
+          error: 'Target folder not found'
+        });
+        return;
+      }
+    }
+    
+    if (access !== 'manage' || (parent && parentAccess !== 'manage')) {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to move this folder'
+      });
+      return;
+    }
+    
+    const sibling = await findSibling(folder.name, parent?._id || null, folder.workspace || null, folder.owner);
+    
+    if (sibling && !sibling._id.equals(folder._id)) {
+      res.status(409).json({
+        success: false,
+        error: 'A folder with this name already exists in the target folder'
+      });
+      return;
+    }
+    
+    try {
+      await moveFolderTo(folder, parent);
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+        return;
+      }
+      throw error;
+    }
+    
+    await logAudit(user._id.toString(), 'folder_move', {
+      workspaceId: folder.workspace?.toString(),
+      details: { folder: folder._id.toString(), parent: parent?._id.toString() || null },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Folder moved',
+      data: folder
+    });
+  } catch (error) {
+    console.error('Move folder error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to move folder'
+    });
+  }
+};
+
+/**
+ * Delete a folder with all subfolders, moving their files to the trash
+ * DELETE /api/folders/:id
+ */
+export const deleteFolder = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const folder = await findFolder(req.params.id);
+    const access = folder ? await getFileAccess(folder, user._id.toString()) : null;
+    
+    if (!folder || !access) {
+      res.status(404).json({
+        success: false,
+        error: 'Folder not found'
+      });
+      return;
+    }
+    
+    if (access !== 'manage') {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to delete this folder'
+      });
+      return;
+    }
+    
+    const deleted = await deleteFolderTree(folder, user._id.toString());
+    
+    await logAudit(user._id.toString(), 'folder_delete', {
+      workspaceId: folder.workspace?.toString(),
+      details: { folder: folder._id.toString(), name: folder.name, ...deleted },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: `Folder deleted (${deleted.folders} folder(s), ${deleted.files} file(s))`
+    });
+  } catch (error) {
+    console.error('Delete folder error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete folder'
+    });
+  }
+};
@@ -2,4 +2,16 @@ export * from './authController';
 export * from './fileController';
 export * from './shareController';
 export * from './auditController';
+export * from './twoFactorController';
 
+export * from './accessTokenController';
+export * from './adminController';
+export * from './oidcController';
+export * from './accountController';
+export * from './avatarController';
+export * from './workspaceController';
+export * from './contactController';
+export * from './folderController';
+export * from './versionController';
+export * from './tagController';
+export * from './tusController';
@@ -0,0 +1,243 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { User } from '../models';
+import { ApiResponse } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { generateChallengeToken } from '../utils/helpers';
+import {
+  getOidcConfig,
+  isLocalLoginEnabled,
+  isPasswordResetPending,
+  createOidcAuthorizationUrl,
+  completeOidcLogin,
+  resolveOidcUser,
+  issueUserToken,
+  consumeUserToken,
+  createSession
+} from '../services';
+
+/**
+ * Only allow same-site relative return paths (prevents open redirects)
+ */
+const sanitizeReturnTo = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  if (!value.startsWith('/') || value.startsWith('//') || value.includes('\\')) return undefined;
+  return value;
+};
+
+const STATE_COOKIE = 'oidc_state';
+const STATE_COOKIE_PATH = '/api/auth/oidc';
+
+/**
+ * Read a cookie from the request (no cookie parser is installed). Values are
+ * returned as sent; the state token is URL-safe.
+ */
+const readCookie = (req: Request, name: string): string | undefined => {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index !== -1 && part.slice(0, index).trim() === name) {
+      return part.slice(index + 1).trim();
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Build a redirect back to the frontend SSO callback page
+ */
+const buildFrontendRedirect = (params: Record<string, string | undefined>): string => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  const query = new URLSearchParams();
+  
+  for (const [key, value] of Object.entries(params)) {
+    if (value) query.set(key, value);
+  }
+  
+  return `${frontendUrl}/auth/sso/callback?${query.toString()}`;
+};
+
+/**
+ * List available sign-in methods
+ * GET /api/auth/providers
+ */
+export const getAuthProviders = async (
+  _req: Request,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  res.json({
+    success: true,
+    data: {
+      local: isLocalLoginEnabled(),
+      oidc: getOidcConfig() !== null
+    }
+  });
+};
+
+/**
+ * Start SSO login - redirects to the identity provider
+ * GET /api/auth/oidc/login?returnTo=/path
+ */
+export const startOidcLogin = async (
+  req: Request,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    if (!getOidcConfig()) {
+      res.status(404).json({
+        success: false,
+        error: 'Single sign-on is not configured'
+      });
+      return;
+    }
+    
+    const { url, stateToken, expiresAt } = await createOidcAuthorizationUrl(
+      sanitizeReturnTo(req.query.returnTo)
+    );
+    
+    // Ties the login to this browser; Lax so it survives the provider's redirect back
+    res.cookie(STATE_COOKIE, stateToken, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'lax',
+      path: STATE_COOKIE_PATH,
+      expires: expiresAt
+    });
+    
+    res.redirect(url);
+  } catch (error) {
+    console.error('OIDC login error:', error);
+    res.status(502).json({
+      success: false,
+      error: 'Failed to contact identity provider'
+    });
+  }
+};
+
+/**
+ * Identity provider redirect target. Hands a single-use login code
+ * to the frontend, which exchanges it for tokens.
+ * GET /api/auth/oidc/callback
+ */
+export const handleOidcCallback = async (
+  req: Request,
+  res: Response
+): Promise<void> => {
+  const { code, state, error, error_description: errorDescription } = req.query;
+  const stateToken = readCookie(req, STATE_COOKIE);
+  
+  res.clearCookie(STATE_COOKIE, { path: STATE_COOKIE_PATH });
+  
+  if (error) {
+    res.redirect(buildFrontendRedirect({ error: (errorDescription || error) as string }));
+    return;
+  }
+  
+  if (typeof code !== 'string' || typeof state !== 'string') {
+    res.redirect(buildFrontendRedirect({ error: 'Missing authorization code' }));
+    return;
+  }
+  
+  try {
+    const { claims, returnTo } = await completeOidcLogin(code, state, stateToken);
+    const user = await resolveOidcUser(claims);
+    
+    if (user.isDisabled) {
+      res.redirect(buildFrontendRedirect({ error: 'Account has been disabled' }));
+      return;
+    }
+    
+    const loginCode = await issueUserToken(user._id.toString(), 'oidc_login', 2);
+    
+    res.redirect(buildFrontendRedirect({ code: loginCode, returnTo }));
+  } catch (err) {
+    console.error('OIDC callback error:', err);
+    const message = err instanceof AppError ? err.message : 'Single sign-on failed';
+    res.redirect(buildFrontendRedirect({ error: message }));
+  }
+};
+
+/**
+ * Exchange the SSO login code for a session. Applies the same account checks
+ * as password login, including the second step for 2FA-enabled accounts.
+ * POST /api/auth/oidc/token
+ */
+export const exchangeOidcCode = async (
+  req: Request,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const loginToken = await consumeUserToken(req.body.code, 'oidc_login');
+    
+    if (!loginToken) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid or expired login code'
+      });
+      return;
+    }
+    
+    const user = await User.findById(loginToken.user);
+    
+    if (!user || user.isDisabled) {
+      res.status(401).json({
+        success: false,
+        error: 'Invalid or expired login code'
+      });
+      return;
+    }
+    
+    if (isPasswordResetPending(user)) {
+      res.status(403).json({
+        success: false,
+        error: 'A password reset is required. Please check your email for a reset link.'
+      });
+      return;
+    }
+    
+    if (user.twoFactorEnabled) {
+      res.json({
+        success: true,
+        message: 'Two-factor authentication required',
+        data: {
+          twoFactorRequired: true,
+          challengeToken: generateChallengeToken(user)
+        }
+      });
+      return;
+    }
+    
+    const tokens = await createSession(user, {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Login successful',
+      data: {
+        user: {
+          id: user._id,
+          email: user.email,
+          name: user.name,
+          emailVerified: user.emailVerified
+        },
+        ...tokens
+      }
+    });
+  } catch (error) {
+    console.error('OIDC token exchange error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to complete single sign-on'
+    });
+  }
+};
@@ -1,9 +1,30 @@
 import { Response } from 'express';
 import { validationResult } from 'express-validator';
-import { File, Share } from '../models';
-import { AuthRequest, ApiResponse } from '../types';
+import { File, Share, User } from '../models';
+import { AuthRequest, ApiResponse, IShare, ScanStatus } from '../types';
 import { generateShareLink, isExpired, parseExpiration } from '../utils/helpers';
-import { logAudit } from '../services';
+import { streamFileInline, sendFileDownload, sendThumbnail, StoredFile, ThumbnailSource } from '../utils/streaming';
+import {
+  logAudit,
+  logAuditOnce,
+  getFileAccess,
+  getWorkspaceRole,
+  canEditWorkspace,
+  recordShareContact,
+  getScanRefusal
+} from '../services';
+
+/**
+ * The share's creator, or anyone who manages the file through its workspace
+ */
+const canManageShare = async (share: IShare, userId: string): Promise<boolean> => {
+  if (share.owner.toString() === userId) {
+    return true;
+  }
+  
+  const file = await File.findById(share.file);
+  return file ? await getFileAccess(file, userId) === 'manage' : false;
+};
 
 /**
  * Share file with specific user
@@ -34,8 +55,8 @@ export const shareWithUser = async (
     
     const { fileId, userId, permission, expiresAt } = req.body;
     
-    // Check if file exists and user is owner
-    const file = await File.findById(fileId);
+    // Check if file exists (and is not in the trash) and user may share it
+    const file = await File.findOne({ _id: fileId, deletedAt: null });
     
     if (!file) {
       res.status(404).json({
@@ -45,10 +66,18 @@ export const shareWithUser = async (
       return;
     }
     
-    if (file.owner.toString() !== user._id.toString()) {
+    if (await getFileAccess(file, user._id.toString()) !== 'manage') {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to share this file'
+      });
+      return;
+    }
+    
+    if (file.scanStatus !== 'clean') {
       res.status(403).json({
         success: false,
-        error: 'Only the owner can share this file'
+        error: getScanRefusal(file.scanStatus)
       });
       return;
     }
@@ -62,6 +91,17 @@ export const shareWithUser = async (
       return;
     }
     
+    // Recipient must exist and have a verified email
+    const recipient = await User.findOne({ _id: userId, emailVerified: true });
+    
+    if (!recipient) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+    
     // Check if share already exists
     const existingShare = await Share.findOne({
       file: fileId,
@@ -76,6 +116,8 @@ export const shareWithUser = async (
       existingShare.isActive = true;
       await existingShare.save();
       
+      await recordShareContact(user._id.toString(), userId);
+      
       res.json({
         success: true,
         message: 'Share updated successfully',
@@ -88,15 +130,19 @@ export const shareWithUser = async (
     const share = await Share.create({
       file: fileId,
       owner: user._id,
+      workspace: file.workspace || null,
       shareType: 'user',
       sharedWith: userId,
       permission: permission || 'view',
       expiresAt: parseExpiration(expiresAt)
     });
     
+    await recordShareContact(user._id.toString(), userId);
+    
     // Log audit
     await logAudit(user._id.toString(), 'file_share_user', {
       fileId,
+      workspaceId: file.workspace?.toString(),
       shareId: share._id.toString(),
       details: {
         sharedWith: userId,
@@ -150,8 +196,8 @@ export const shareViaLink = async (
     
     const { fileId, permission, expiresAt } = req.body;
     
-    // Check if file exists and user is owner
-    const file = await File.findById(fileId);
+    // Check if file exists (and is not in the trash) and user may share it
+    const file = await File.findOne({ _id: fileId, deletedAt: null });
     
     if (!file) {
       res.status(404).json({
@@ -161,10 +207,18 @@ export const shareViaLink = async (
       return;
     }
     
-    if (file.owner.toString() !== user._id.toString()) {
+    if (await getFileAccess(file, user._id.toString()) !== 'manage') {
+      res.status(403).json({
+        success: false,
+        error: 'You do not have permission to share this file'
+      });
+      return;
+    }
+    
+    if (file.scanStatus !== 'clean') {
       res.status(403).json({
         success: false,
-        error: 'Only the owner can share this file'
+        error: getScanRefusal(file.scanStatus)
       });
       return;
     }
@@ -176,6 +230,7 @@ export const shareViaLink = async (
     const share = await Share.create({
       file: fileId,
       owner: user._id,
+      workspace: file.workspace || null,
       shareType: 'link',
       shareLink,
       permission: permission || 'view',
@@ -185,6 +240,7 @@ export const shareViaLink = async (
     // Log audit
     await logAudit(user._id.toString(), 'file_share_link', {
       fileId,
+      workspaceId: file.workspace?.toString(),
       shareId: share._id.toString(),
       details: {
         permission,
@@ -237,7 +293,7 @@ export const accessViaLink = async (
       shareLink,
       shareType: 'link',
       isActive: true
-    }).populate('file').populate('owner', 'name email');
+    }).populate('file').populate('owner', 'name email avatarUrl');
     
     if (!share) {
       res.status(404).json({
@@ -256,10 +312,25 @@ export const accessViaLink = async (
       return;
     }
     
+    const sharedFile = share.file as unknown as {
+      _id: string;
+      workspace?: string | null;
+      scanStatus: ScanStatus;
+    };
+    
+    if (sharedFile.scanStatus !== 'clean') {
+      res.status(403).json({
+        success: false,
+        error: getScanRefusal(sharedFile.scanStatus)
+      });
+      return;
+    }
+    
     // Log access
     await logAudit(user._id.toString(), 'share_access', {
-      fileId: (share.file as unknown as { _id: string })._id.toString(),
+      fileId: sharedFile._id.toString(),
       shareId: share._id.toString(),
+      workspaceId: sharedFile.workspace?.toString(),
       ipAddress: req.ip,
       userAgent: req.headers['user-agent']
     });
@@ -328,23 +399,160 @@ export const downloadViaLink = async (
       return;
     }
     
-    const file = share.file as unknown as { _id: string; path: string; originalName: string };
+    const file = share.file as unknown as StoredFile & {
+      _id: string;
+      workspace?: string | null;
+    };
+    
+    if (!await sendFileDownload(res, file)) {
+      return;
+    }
     
     // Log download
     await logAudit(user._id.toString(), 'file_download', {
       fileId: file._id.toString(),
       shareId: share._id.toString(),
+      workspaceId: file.workspace?.toString(),
       ipAddress: req.ip,
       userAgent: req.headers['user-agent']
     });
-    
-    res.download(file.path, file.originalName);
   } catch (error) {
     console.error('Download via link error:', error);
-    res.status(500).json({
-      success: false,
-      error: 'Failed to download file'
-    });
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to download file'
+      });
+    }
+  }
+};
+
+/**
+ * Stream a file inline via share link, with Range support
+ * GET /api/shares/link/:shareLink/stream
+ */
+export const streamViaLink = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { shareLink } = req.params;
+    
+    // Must be authenticated
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'You must be logged in to download shared files'
+      });
+      return;
+    }
+    
+    // Find share with download permission
+    const share = await Share.findOne({
+      shareLink,
+      shareType: 'link',
+      isActive: true,
+      permission: 'download'
+    }).populate('file');
+    
+    if (!share) {
+      res.status(403).json({
+        success: false,
+        error: 'Share link not found or does not have download permission'
+      });
+      return;
+    }
+    
+    // Check expiration
+    if (isExpired(share.expiresAt)) {
+      res.status(403).json({
+        success: false,
+        error: 'This share link has expired'
+      });
+      return;
+    }
+    
+    const file = share.file as unknown as StoredFile & {
+      _id: string;
+      workspace?: string | null;
+    };
+    
+    const start = await streamFileInline(req, res, file);
+    
+    // Players send many range requests; log the playback once
+    if (start === 0) {
+      await logAuditOnce(user._id.toString(), 'file_download', {
+        fileId: file._id.toString(),
+        shareId: share._id.toString(),
+        workspaceId: file.workspace?.toString(),
+        details: { stream: true },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+    }
+  } catch (error) {
+    console.error('Stream via link error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to stream file'
+      });
+    }
+  }
+};
+
+/**
+ * Get an image thumbnail via share link (view or download permission)
+ * GET /api/shares/link/:shareLink/thumbnail?size=&format=
+ */
+export const thumbnailViaLink = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { shareLink } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'You must be logged in to access shared files'
+      });
+      return;
+    }
+    
+    const share = await Share.findOne({
+      shareLink,
+      shareType: 'link',
+      isActive: true
+    }).populate('file');
+    
+    if (!share) {
+      res.status(404).json({
+        success: false,
+        error: 'Share link not found or has been revoked'
+      });
+      return;
+    }
+    
+    if (isExpired(share.expiresAt)) {
+      res.status(403).json({
+        success: false,
+        error: 'This share link has expired'
+      });
+      return;
+    }
+    
+    await sendThumbnail(req, res, share.file as unknown as ThumbnailSource);
+  } catch (error) {
+    console.error('Thumbnail via link error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to get thumbnail'
+      });
+    }
   }
 };
 
@@ -368,7 +576,7 @@ export const getFileShares = async (
       return;
     }
     
-    // Check if user owns the file
+    // Check if user owns the file or manages it through a workspace
     const file = await File.findById(fileId);
     
     if (!file) {
@@ -379,7 +587,7 @@ export const getFileShares = async (
       return;
     }
     
-    if (file.owner.toString() !== user._id.toString()) {
+    if (await getFileAccess(file, user._id.toString()) !== 'manage') {
       res.status(403).json({
         success: false,
         error: 'Access denied'
@@ -388,7 +596,7 @@ export const getFileShares = async (
     }
     
     const shares = await Share.find({ file: fileId, isActive: true })
-      .populate('sharedWith', 'name email')
+      .populate('sharedWith', 'name email avatarUrl')
       .sort({ createdAt: -1 })
       .lean();
     
@@ -405,6 +613,56 @@ export const getFileShares = async (
   }
 };
 
+/**
+ * Get all active shares of a workspace's files
+ * GET /api/shares/workspace/:workspaceId
+ */
+export const getWorkspaceShares = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { workspaceId } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const role = await getWorkspaceRole(workspaceId, user._id.toString());
+    
+    if (!canEditWorkspace(role)) {
+      res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
+      return;
+    }
+    
+    const shares = await Share.find({ workspace: workspaceId, isActive: true })
+      .populate('file', 'originalName mimeType size')
+      .populate('owner', 'name email avatarUrl')
+      .populate('sharedWith', 'name email avatarUrl')
+      .sort({ createdAt: -1 })
+      .lean();
+    
+    res.json({
+      success: true,
+      data: shares
+    });
+  } catch (error) {
+    console.error('Get workspace shares error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get shares'
+    });
+  }
+};
+
 /**
  * Revoke a share
  * DELETE /api/shares/:shareId
@@ -435,7 +693,7 @@ export const revokeShare = async (
       return;
     }
     
-    if (share.owner.toString() !== user._id.toString()) {
+    if (!await canManageShare(share, user._id.toString())) {
       res.status(403).json({
         success: false,
         error: 'Only the owner can revoke this share'
@@ -444,12 +702,14 @@ export const revokeShare = async (
     }
     
     share.isActive = false;
+    share.pausedByTrash = false;
     await share.save();
     
     // Log audit
     await logAudit(user._id.toString(), 'share_revoke', {
       fileId: share.file.toString(),
       shareId: share._id.toString(),
+      workspaceId: share.workspace?.toString(),
       ipAddress: req.ip,
       userAgent: req.headers['user-agent']
     });
@@ -498,7 +758,7 @@ export const updateShareExpiration = async (
       return;
     }
     
-    if (share.owner.toString() !== user._id.toString()) {
+    if (!await canManageShare(share, user._id.toString())) {
       res.status(403).json({
         success: false,
         error: 'Only the owner can update this share'
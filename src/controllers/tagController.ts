@@ -0,0 +1,287 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { isValidObjectId, Types } from 'mongoose';
+import { File } from '../models';
+import { AuthRequest, ApiResponse, IFile } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import {
+  getFileAccess,
+  getWorkspaceRole,
+  logAudit,
+  addFileTags,
+  removeFileTag,
+  updateFileMetadata,
+  getTagCounts
+} from '../services';
+
+/**
+ * Load a file the user may change. Sends the error response and
+ * returns null when the file is missing or read-only for the user.
+ */
+const findManageableFile = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<IFile | null> => {
+  const file = await File.findOne({ _id: req.params.id, deletedAt: null });
+  const access = file && req.user ? await getFileAccess(file, req.user._id.toString()) : null;
+  
+  if (!file || !access) {
+    res.status(404).json({
+      success: false,
+      error: 'File not found'
+    });
+    return null;
+  }
+  
+  if (access !== 'manage') {
+    res.status(403).json({
+      success: false,
+      error: 'You do not have permission to change this file'
+    });
+    return null;
+  }
+  
+  return file;
+};
+
+/**
+ * List the tags used in the personal space, or in a workspace, with counts
+ * GET /api/files/tags?workspaceId=
+ */
+export const getTags = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { workspaceId } = req.query;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    let filter: Record<string, unknown> = { owner: user._id, workspace: null, deletedAt: null };
+    
+    if (typeof workspaceId === 'string' && workspaceId) {
+      if (!isValidObjectId(workspaceId)) {
+        res.status(400).json({
+          success: false,
+          error: 'Invalid workspace ID'
+        });
+        return;
+      }
+      
+      if (!await getWorkspaceRole(workspaceId, user._id.toString())) {
+        res.status(403).json({
+          success: false,
+          error: 'You do not have access to these files'
+        });
+        return;
+      }
+      filter = { workspace: new Types.ObjectId(workspaceId), deletedAt: null };
+    }
+    
+    const tags = await getTagCounts(filter);
+    
+    res.json({
+      success: true,
+      data: tags
+    });
+  } catch (error) {
+    console.error('Get tags error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get tags'
+    });
+  }
+};
+
+/**
+ * Add tags to a file
+ * POST /api/files/:id/tags
+ */
+export const addTags = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const file = await findManageableFile(req, res);
+    
+    if (!file) {
+      return;
+    }
+    
+    await addFileTags(file, req.body.tags);
+    
+    await logAudit(user._id.toString(), 'file_metadata_update', {
+      fileId: file._id.toString(),
+      workspaceId: file.workspace?.toString(),
+      details: { addedTags: req.body.tags },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Tags added',
+      data: file
+    });
+  } catch (error) {
+    console.error('Add tags error:', error);
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add tags'
+    });
+  }
+};
+
+/**
+ * Remove a tag from a file
+ * DELETE /api/files/:id/tags/:tag
+ */
+export const removeTag = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { tag } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const file = await findManageableFile(req, res);
+    
+    if (!file) {
+      return;
+    }
+    
+    if (!await removeFileTag(file, tag)) {
+      res.status(404).json({
+        success: false,
+        error: 'Tag not found on this file'
+      });
+      return;
+    }
+    
+    await logAudit(user._id.toString(), 'file_metadata_update', {
+      fileId: file._id.toString(),
+      workspaceId: file.workspace?.toString(),
+      details: { removedTag: tag },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Tag removed',
+      data: file
+    });
+  } catch (error) {
+    console.error('Remove tag error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove tag'
+    });
+  }
+};
+
+/**
+ * Set metadata entries on a file; a null value removes the entry
+ * PATCH /api/files/:id/metadata
+ */
+export const updateMetadata = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const file = await findManageableFile(req, res);
+    
+    if (!file) {
+      return;
+    }
+    
+    await updateFileMetadata(file, req.body.metadata);
+    
+    await logAudit(user._id.toString(), 'file_metadata_update', {
+      fileId: file._id.toString(),
+      workspaceId: file.workspace?.toString(),
+      details: { metadataKeys: Object.keys(req.body.metadata) },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Metadata updated',
+      data: file
+    });
+  } catch (error) {
+    console.error('Update metadata error:', error);
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update metadata'
+    });
+  }
+};
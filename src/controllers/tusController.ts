@@ -0,0 +1,270 @@
+import { Response } from 'express';
+import { AuthRequest, ApiResponse, IUploadSession } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import {
+  createUploadSession,
+  findUploadSession,
+  appendUploadChunk,
+  terminateUploadSession
+} from '../services';
+
+/**
+ * Parse a tus Upload-Metadata header ("key base64value,key2 base64value2")
+ */
+const parseUploadMetadata = (header: unknown): Record<string, string> => {
+  const metadata: Record<string, string> = {};
+  
+  if (typeof header !== 'string') {
+    return metadata;
+  }
+  
+  for (const pair of header.split(',')) {
+    const [key, value] = pair.trim().split(' ');
+    if (key) {
+      metadata[key] = value ? Buffer.from(value, 'base64').toString('utf8') : '';
+    }
+  }
+  
+  return metadata;
+};
+
+/**
+ * Parse a non-negative integer header
+ */
+const parseByteCount = (header: unknown): number | null => {
+  if (typeof header !== 'string' || !/^\d+$/.test(header)) {
+    return null;
+  }
+  return parseInt(header, 10);
+};
+
+/**
+ * Headers describing an upload's progress
+ */
+const setUploadHeaders = (res: Response, session: IUploadSession): void => {
+  res.setHeader('Upload-Offset', session.offset.toString());
+  res.setHeader('Upload-Expires', session.expiresAt.toUTCString());
+};
+
+/**
+ * Send an AppError (or a generic failure) as a JSON response
+ */
+const sendUploadError = (
+  res: Response<ApiResponse>,
+  error: unknown,
+  fallback: string
+): void => {
+  if (error instanceof AppError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message
+    });
+    return;
+  }
+  
+  res.status(500).json({
+    success: false,
+    error: fallback
+  });
+};
+
+/**
+ * Create a resumable upload (tus creation extension).
+ * Metadata keys: filename, filetype, workspaceId, folderId
+ * POST /api/uploads
+ */
+export const createUpload = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const length = parseByteCount(req.headers['upload-length']);
+    
+    if (length === null) {
+      res.status(400).json({
+        success: false,
+        error: 'Upload-Length header is required'
+      });
+      return;
+    }
+    
+    const metadata = parseUploadMetadata(req.headers['upload-metadata']);
+    
+    if (!metadata.filename) {
+      res.status(400).json({
+        success: false,
+        error: 'Upload-Metadata must include a filename'
+      });
+      return;
+    }
+    
+    const session = await createUploadSession(
+      user._id.toString(),
+      {
+        length,
+        originalName: metadata.filename,
+        mimeType: metadata.filetype,
+        workspaceId: metadata.workspaceId,
+        folderId: metadata.folderId
+      },
+      { ipAddress: req.ip, userAgent: req.headers['user-agent'] }
+    );
+    
+    res.setHeader('Location', `${req.baseUrl}/${session._id}`);
+    setUploadHeaders(res, session);
+    res.status(201).end();
+  } catch (error) {
+    console.error('Create upload error:', error);
+    sendUploadError(res, error, 'Failed to create upload');
+  }
+};
+
+/**
+ * Get the current offset of an upload
+ * HEAD /api/uploads/:id
+ */
+export const getUploadOffset = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).end();
+      return;
+    }
+    
+    const session = await findUploadSession(req.params.id, user._id.toString());
+    
+    res.setHeader('Upload-Length', session.length.toString());
+    res.setHeader('Cache-Control', 'no-store');
+    setUploadHeaders(res, session);
+    res.status(200).end();
+  } catch (error) {
+    // HEAD responses carry no body
+    res.status(error instanceof AppError ? error.statusCode : 500).end();
+  }
+};
+
+/**
+ * Append a chunk to an upload. The file is stored once the last byte arrives.
+ * PATCH /api/uploads/:id
+ */
+export const uploadChunk = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    if (req.headers['content-type'] !== 'application/offset+octet-stream') {
+      res.status(415).json({
+        success: false,
+        error: 'Content-Type must be application/offset+octet-stream'
+      });
+      return;
+    }
+    
+    const offset = parseByteCount(req.headers['upload-offset']);
+    
+    if (offset === null) {
+      res.status(400).json({
+        success: false,
+        error: 'Upload-Offset header is required'
+      });
+      return;
+    }
+    
+    const session = await findUploadSession(req.params.id, user._id.toString());
+    const updated = await appendUploadChunk(session, offset, req, {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    setUploadHeaders(res, updated);
+    res.status(204).end();
+  } catch (error) {
+    console.error('Upload chunk error:', error);
+    sendUploadError(res, error, 'Failed to store upload chunk');
+  }
+};
+
+/**
+ * Get an upload's status, including the stored file once complete
+ * GET /api/uploads/:id
+ */
+export const getUpload = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const session = await findUploadSession(req.params.id, user._id.toString());
+    await session.populate('file');
+    
+    res.json({
+      success: true,
+      data: session
+    });
+  } catch (error) {
+    console.error('Get upload error:', error);
+    sendUploadError(res, error, 'Failed to get upload');
+  }
+};
+
+/**
+ * Cancel an upload (tus termination extension)
+ * DELETE /api/uploads/:id
+ */
+export const terminateUpload = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const session = await findUploadSession(req.params.id, user._id.toString());
+    await terminateUploadSession(session);
+    
+    res.status(204).end();
+  } catch (error) {
+    console.error('Terminate upload error:', error);
+    sendUploadError(res, error, 'Failed to terminate upload');
+  }
+};
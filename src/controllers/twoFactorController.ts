@@ -0,0 +1,399 @@
+import { Request, Response } from 'express';
+import { validationResult } from 'express-validator';
+import { User } from '../models';
+import { ApiResponse, AuthRequest } from '../types';
+import { verifyChallengeToken } from '../utils/helpers';
+import { buildOtpAuthUri, generateTotpSecret, verifyTotpCode } from '../utils/totp';
+import {
+  createSession,
+  generateRecoveryCodes,
+  verifySecondFactor,
+  logAudit,
+  getLoginThrottleStatus,
+  recordLoginFailure,
+  clearLoginFailures,
+  isPasswordResetPending
+} from '../services';
+
+const TWO_FACTOR_FIELDS = '+twoFactorSecret +twoFactorPendingSecret +twoFactorRecoveryCodes +twoFactorLastUsedStep';
+
+/**
+ * Start 2FA enrollment by generating a new secret
+ * POST /api/auth/2fa/setup
+ */
+export const setupTwoFactor = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    if (req.user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is already enabled'
+      });
+      return;
+    }
+    
+    const secret = generateTotpSecret();
+    
+    await User.updateOne({ _id: req.user._id }, { twoFactorPendingSecret: secret });
+    
+    const issuer = process.env.TOTP_ISSUER || 'NuaShare';
+    
+    res.json({
+      success: true,
+      message: 'Scan the QR code with your authenticator app, then confirm with a code',
+      data: {
+        secret,
+        otpauthUri: buildOtpAuthUri(secret, req.user.email, issuer)
+      }
+    });
+  } catch (error) {
+    console.error('2FA setup error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start two-factor setup'
+    });
+  }
+};
+
+/**
+ * Confirm 2FA enrollment with a code from the authenticator app
+ * POST /api/auth/2fa/enable
+ */
+export const enableTwoFactor = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const user = await User.findById(req.user._id).select(TWO_FACTOR_FIELDS);
+    
+    if (!user || !user.twoFactorPendingSecret) {
+      res.status(400).json({
+        success: false,
+        error: 'Two-factor setup has not been started'
+      });
+      return;
+    }
+    
+    const step = verifyTotpCode(user.twoFactorPendingSecret, req.body.code);
+    
+    if (step === null) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid verification code'
+      });
+      return;
+    }
+    
+    const { codes, hashes } = generateRecoveryCodes();
+    
+    user.twoFactorEnabled = true;
+    user.twoFactorSecret = user.twoFactorPendingSecret;
+    user.twoFactorPendingSecret = undefined;
+    user.twoFactorRecoveryCodes = hashes;
+    user.twoFactorLastUsedStep = step;
+    await user.save();
+    
+    await logAudit(user._id.toString(), 'two_factor_enroll', {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+      data: {
+        recoveryCodes: codes
+      }
+    });
+  } catch (error) {
+    console.error('2FA enable error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to enable two-factor authentication'
+    });
+  }
+};
+
+/**
+ * Disable 2FA (requires the password, if the account has one, and a second factor)
+ * POST /api/auth/2fa/disable
+ */
+export const disableTwoFactor = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const { password, code, recoveryCode } = req.body;
+    
+    const user = await User.findById(req.user._id).select(`+password ${TWO_FACTOR_FIELDS}`);
+    
+    if (!user || !user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is not enabled'
+      });
+      return;
+    }
+    
+    // SSO-provisioned accounts have no usable password
+    const isMatch = !user.hasPassword
+      || (typeof password === 'string' && await user.comparePassword(password));
+    const isVerified = isMatch && await verifySecondFactor(user, { code, recoveryCode });
+    
+    if (!isVerified) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid password or verification code'
+      });
+      return;
+    }
+    
+    user.twoFactorEnabled = false;
+    user.twoFactorSecret = undefined;
+    user.twoFactorRecoveryCodes = undefined;
+    user.twoFactorLastUsedStep = undefined;
+    await user.save();
+    
+    await logAudit(user._id.toString(), 'two_factor_disable', {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    console.error('2FA disable error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to disable two-factor authentication'
+    });
+  }
+};
+
+/**
+ * Replace recovery codes with a fresh set
+ * POST /api/auth/2fa/recovery-codes
+ */
+export const regenerateRecoveryCodes = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const user = await User.findById(req.user._id).select(TWO_FACTOR_FIELDS);
+    
+    if (!user || !user.twoFactorEnabled) {
+      res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is not enabled'
+      });
+      return;
+    }
+    
+    const isVerified = await verifySecondFactor(user, { code: req.body.code });
+    
+    if (!isVerified) {
+      res.status(400).json({
+        success: false,
+        error: 'Invalid verification code'
+      });
+      return;
+    }
+    
+    const { codes, hashes } = generateRecoveryCodes();
+    user.twoFactorRecoveryCodes = hashes;
+    await user.save();
+    
+    res.json({
+      success: true,
+      message: 'Recovery codes regenerated',
+      data: {
+        recoveryCodes: codes
+      }
+    });
+  } catch (error) {
+    console.error('2FA recovery codes error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to regenerate recovery codes'
+    });
+  }
+};
+
+/**
+ * Complete a two-step login with a TOTP or recovery code
+ * POST /api/auth/2fa/challenge
+ */
+export const verifyTwoFactorChallenge = async (
+  req: Request,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const { challengeToken, code, recoveryCode } = req.body;
+    
+    const userId = verifyChallengeToken(challengeToken);
+    
+    if (!userId) {
+      res.status(401).json({
+        success: false,
+        error: 'Login challenge expired. Please login again.'
+      });
+      return;
+    }
+    
+    const user = await User.findById(userId).select(TWO_FACTOR_FIELDS);
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Login challenge expired. Please login again.'
+      });
+      return;
+    }
+    
+    // Second-step failures count towards the same account lockout as passwords
+    const throttle = await getLoginThrottleStatus(user.email, req.ip);
+    
+    if (throttle.locked) {
+      res.setHeader('Retry-After', throttle.retryAfterSeconds.toString());
+      res.status(429).json({
+        success: false,
+        error: `Too many failed login attempts. Try again in ${Math.ceil(throttle.retryAfterSeconds / 60)} minute(s).`,
+        data: { retryAfterSeconds: throttle.retryAfterSeconds }
+      });
+      return;
+    }
+    
+    const isVerified = await verifySecondFactor(user, { code, recoveryCode });
+    
+    if (!isVerified) {
+      await recordLoginFailure(user.email, req.ip);
+      await logAudit(user._id.toString(), 'two_factor_challenge_failed', {
+        details: { method: recoveryCode ? 'recovery_code' : 'totp' },
+        ipAddress: req.ip,
+        userAgent: req.headers['user-agent']
+      });
+      
+      res.status(401).json({
+        success: false,
+        error: 'Invalid verification code'
+      });
+      return;
+    }
+    
+    await clearLoginFailures(user.email);
+    
+    // The account may have changed since the password step
+    if (user.isDisabled) {
+      res.status(403).json({
+        success: false,
+        error: 'Account has been disabled. Please contact an administrator.'
+      });
+      return;
+    }
+    
+    if (isPasswordResetPending(user)) {
+      res.status(403).json({
+        success: false,
+        error: 'A password reset is required. Please check your email for a reset link.'
+      });
+      return;
+    }
+    
+    const tokens = await createSession(user, {
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Login successful',
+      data: {
+        user: {
+          id: user._id,
+          email: user.email,
+          name: user.name,
+          emailVerified: user.emailVerified
+        },
+        ...tokens
+      }
+    });
+  } catch (error) {
+    console.error('2FA challenge error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to verify two-factor code'
+    });
+  }
+};
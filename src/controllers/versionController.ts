@@ -0,0 +1,334 @@
+import { Response } from 'express';
+import fs from 'fs';
+import { File, FileVersion, User } from '../models';
+import { AuthRequest, ApiResponse, IFile } from '../types';
+import { getStorage } from '../storage';
+import { AppError } from '../middleware/errorHandler';
+import { sendFileDownload } from '../utils/streaming';
+import {
+  getFileAccess,
+  logAudit,
+  storeNewVersion,
+  verifyUploadContent,
+  restoreFileVersion,
+  FileAccess
+} from '../services';
+
+/**
+ * Load a file the user can access. Sends the error response and
+ * returns null when the file is missing or the access level is too low.
+ */
+const findAccessibleFile = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>,
+  required: FileAccess
+): Promise<IFile | null> => {
+  const file = await File.findOne({ _id: req.params.id, deletedAt: null });
+  const access = file && req.user ? await getFileAccess(file, req.user._id.toString()) : null;
+  
+  if (!file || !access) {
+    res.status(404).json({
+      success: false,
+      error: 'File not found'
+    });
+    return null;
+  }
+  
+  if (required === 'manage' && access !== 'manage') {
+    res.status(403).json({
+      success: false,
+      error: 'You do not have permission to change this file'
+    });
+    return null;
+  }
+  
+  return file;
+};
+
+/**
+ * Upload a new version of an existing file
+ * POST /api/files/:id/versions
+ */
+export const uploadNewVersion = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  const upload = req.file;
+  
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    if (!upload) {
+      res.status(400).json({
+        success: false,
+        error: 'No file uploaded'
+      });
+      return;
+    }
+    
+    const file = await findAccessibleFile(req, res, 'manage');
+    
+    if (!file) {
+      fs.unlinkSync(upload.path);
+      return;
+    }
+    
+    const context = { ipAddress: req.ip, userAgent: req.headers['user-agent'] };
+    
+    const verified = await verifyUploadContent(
+      {
+        originalName: upload.originalname,
+        mimeType: upload.mimetype,
+        size: upload.size,
+        path: upload.path
+      },
+      user._id.toString(),
+      context
+    );
+    
+    await storeNewVersion(file, verified, user._id.toString(), context);
+    
+    await logAudit(user._id.toString(), 'file_version_upload', {
+      fileId: file._id.toString(),
+      workspaceId: file.workspace?.toString(),
+      details: {
+        version: file.version,
+        filename: upload.originalname,
+        size: upload.size
+      },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.status(201).json({
+      success: true,
+      message: `Version ${file.version} uploaded successfully`,
+      data: file
+    });
+  } catch (error) {
+    console.error('Upload version error:', error);
+    if (upload && fs.existsSync(upload.path)) {
+      fs.unlinkSync(upload.path);
+    }
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to upload new version'
+    });
+  }
+};
+
+/**
+ * List a file's versions, newest (current) first
+ * GET /api/files/:id/versions
+ */
+export const getVersions = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const file = await findAccessibleFile(req, res, 'read');
+    
+    if (!file) {
+      return;
+    }
+    
+    const [currentUploader, previous] = await Promise.all([
+      User.findById(file.modifiedBy || file.owner).select('name email avatarUrl').lean(),
+      FileVersion.find({ file: file._id })
+        .populate('uploadedBy', 'name email avatarUrl')
+        .sort({ version: -1 })
+        .lean()
+    ]);
+    
+    const versions = [
+      {
+        version: file.version,
+        originalName: file.originalName,
+        mimeType: file.mimeType,
+        size: file.size,
+        uploadedBy: currentUploader,
+        uploadedAt: file.modifiedAt || file.createdAt,
+        isCurrent: true
+      },
+      ...previous.map((version) => ({
+        version: version.version,
+        originalName: version.originalName,
+        mimeType: version.mimeType,
+        size: version.size,
+        uploadedBy: version.uploadedBy,
+        uploadedAt: version.uploadedAt,
+        isCurrent: false
+      }))
+    ];
+    
+    res.json({
+      success: true,
+      data: versions
+    });
+  } catch (error) {
+    console.error('Get versions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get versions'
+    });
+  }
+};
+
+/**
+ * Download a specific version of a file
+ * GET /api/files/:id/versions/:version/download
+ */
+export const downloadVersion = async (
+  req: AuthRequest,
+  res: Response
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const file = await findAccessibleFile(req, res, 'read');
+    
+    if (!file) {
+      return;
+    }
+    
+    const versionNumber = parseInt(req.params.version, 10);
+    const version = versionNumber === file.version
+      ? file
+      : await FileVersion.findOne({ file: file._id, version: versionNumber });
+    
+    if (!version) {
+      res.status(404).json({
+        success: false,
+        error: 'Version not found'
+      });
+      return;
+    }
+    
+    if (!await sendFileDownload(res, version)) {
+      return;
+    }
+    
+    await logAudit(user._id.toString(), 'file_download', {
+      fileId: file._id.toString(),
+      workspaceId: file.workspace?.toString(),
+      details: { version: versionNumber },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+  } catch (error) {
+    console.error('Download version error:', error);
+    if (!res.headersSent) {
+      res.status(500).json({
+        success: false,
+        error: 'Failed to download version'
+      });
+    }
+  }
+};
+
+/**
+ * Restore a previous version as the current version
+ * POST /api/files/:id/versions/:version/restore
+ */
+export const restoreVersion = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const file = await findAccessibleFile(req, res, 'manage');
+    
+    if (!file) {
+      return;
+    }
+    
+    const versionNumber = parseInt(req.params.version, 10);
+    
+    if (versionNumber === file.version) {
+      res.status(400).json({
+        success: false,
+        error: 'This version is already current'
+      });
+      return;
+    }
+    
+    const version = await FileVersion.findOne({ file: file._id, version: versionNumber });
+    
+    if (!version || !await getStorage(version.storage).stat(version.filename)) {
+      res.status(404).json({
+        success: false,
+        error: 'Version not found'
+      });
+      return;
+    }
+    
+    await restoreFileVersion(file, version, user._id.toString());
+    
+    await logAudit(user._id.toString(), 'file_version_restore', {
+      fileId: file._id.toString(),
+      workspaceId: file.workspace?.toString(),
+      details: { restored: versionNumber, version: file.version },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: `Version ${versionNumber} restored as version ${file.version}`,
+      data: file
+    });
+  } catch (error) {
+    console.error('Restore version error:', error);
+    if (error instanceof AppError) {
+      res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Failed to restore version'
+    });
+  }
+};
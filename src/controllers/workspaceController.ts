@@ -0,0 +1,566 @@
+import { Response } from 'express';
+import { validationResult } from 'express-validator';
+import { isValidObjectId } from 'mongoose';
+import { User, Workspace } from '../models';
+import { AuthRequest, ApiResponse, IWorkspace, WorkspaceRole } from '../types';
+import {
+  getMemberRole,
+  deleteWorkspaceFiles,
+  logAudit
+} from '../services';
+
+/**
+ * Load a workspace the user belongs to, with their role
+ */
+const findMemberWorkspace = async (
+  workspaceId: string,
+  userId: string
+): Promise<{ workspace: IWorkspace; role: WorkspaceRole } | null> => {
+  if (!isValidObjectId(workspaceId)) {
+    return null;
+  }
+  
+  const workspace = await Workspace.findOne({ _id: workspaceId, 'members.user': userId });
+  const role = workspace ? getMemberRole(workspace, userId) : null;
+  
+  return workspace && role ? { workspace, role } : null;
+};
+
+/**
+ * Create a workspace. The creator becomes its owner.
+ * POST /api/workspaces
+ */
+export const createWorkspace = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const workspace = await Workspace.create({
+      name: req.body.name,
+      createdBy: user._id,
+      members: [{ user: user._id, role: 'owner' }]
+    });
+    
+    await logAudit(user._id.toString(), 'workspace_create', {
+      workspaceId: workspace._id.toString(),
+      details: { name: workspace.name },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.status(201).json({
+      success: true,
+      message: 'Workspace created successfully',
+      data: workspace
+    });
+  } catch (error) {
+    console.error('Create workspace error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to create workspace'
+    });
+  }
+};
+
+/**
+ * List workspaces the current user belongs to
+ * GET /api/workspaces
+ */
+export const getWorkspaces = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const workspaces = await Workspace.find({ 'members.user': user._id })
+      .sort({ name: 1 })
+      .lean();
+    
+    res.json({
+      success: true,
+      data: workspaces.map((workspace) => ({
+        id: workspace._id,
+        name: workspace.name,
+        role: workspace.members.find((m) => m.user.toString() === user._id.toString())?.role,
+        memberCount: workspace.members.length,
+        createdAt: workspace.createdAt
+      }))
+    });
+  } catch (error) {
+    console.error('Get workspaces error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get workspaces'
+    });
+  }
+};
+
+/**
+ * Get a workspace with its members
+ * GET /api/workspaces/:id
+ */
+export const getWorkspace = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { id } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const membership = await findMemberWorkspace(id, user._id.toString());
+    
+    if (!membership) {
+      res.status(404).json({
+        success: false,
+        error: 'Workspace not found'
+      });
+      return;
+    }
+    
+    const workspace = await membership.workspace.populate('members.user', 'name email avatarUrl');
+    
+    res.json({
+      success: true,
+      data: {
+        ...workspace.toJSON(),
+        role: membership.role
+      }
+    });
+  } catch (error) {
+    console.error('Get workspace error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get workspace'
+    });
+  }
+};
+
+/**
+ * Rename a workspace (owners only)
+ * PATCH /api/workspaces/:id
+ */
+export const updateWorkspace = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const user = req.user;
+    const { id } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const membership = await findMemberWorkspace(id, user._id.toString());
+    
+    if (!membership) {
+      res.status(404).json({
+        success: false,
+        error: 'Workspace not found'
+      });
+      return;
+    }
+    
+    if (membership.role !== 'owner') {
+      res.status(403).json({
+        success: false,
+        error: 'Only workspace owners can rename the workspace'
+      });
+      return;
+    }
+    
+    membership.workspace.name = req.body.name;
+    await membership.workspace.save();
+    
+    res.json({
+      success: true,
+      message: 'Workspace updated',
+      data: membership.workspace
+    });
+  } catch (error) {
+    console.error('Update workspace error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update workspace'
+    });
+  }
+};
+
+/**
+ * Delete a workspace and all of its files (owners only)
+ * DELETE /api/workspaces/:id
+ */
+export const deleteWorkspace = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { id } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const membership = await findMemberWorkspace(id, user._id.toString());
+    
+    if (!membership) {
+      res.status(404).json({
+        success: false,
+        error: 'Workspace not found'
+      });
+      return;
+    }
+    
+    if (membership.role !== 'owner') {
+      res.status(403).json({
+        success: false,
+        error: 'Only workspace owners can delete the workspace'
+      });
+      return;
+    }
+    
+    const deletedFiles = await deleteWorkspaceFiles(id);
+    await membership.workspace.deleteOne();
+    
+    await logAudit(user._id.toString(), 'workspace_delete', {
+      workspaceId: id,
+      details: { name: membership.workspace.name, deletedFiles },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Workspace deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete workspace error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete workspace'
+    });
+  }
+};
+
+/**
+ * Add a member (owners only)
+ * POST /api/workspaces/:id/members
+ */
+export const addWorkspaceMember = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const user = req.user;
+    const { id } = req.params;
+    const { userId, role } = req.body;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const membership = await findMemberWorkspace(id, user._id.toString());
+    
+    if (!membership) {
+      res.status(404).json({
+        success: false,
+        error: 'Workspace not found'
+      });
+      return;
+    }
+    
+    if (membership.role !== 'owner') {
+      res.status(403).json({
+        success: false,
+        error: 'Only workspace owners can manage members'
+      });
+      return;
+    }
+    
+    if (getMemberRole(membership.workspace, userId)) {
+      res.status(400).json({
+        success: false,
+        error: 'User is already a member of this workspace'
+      });
+      return;
+    }
+    
+    // New members must exist and have a verified email
+    const member = await User.findOne({ _id: userId, emailVerified: true });
+    
+    if (!member) {
+      res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+      return;
+    }
+    
+    membership.workspace.members.push({ user: member._id, role, addedAt: new Date() });
+    await membership.workspace.save();
+    
+    await logAudit(user._id.toString(), 'workspace_member_add', {
+      workspaceId: id,
+      details: { member: userId, role },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.status(201).json({
+      success: true,
+      message: 'Member added successfully',
+      data: membership.workspace
+    });
+  } catch (error) {
+    console.error('Add workspace member error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add member'
+    });
+  }
+};
+
+/**
+ * Change a member's role (owners only)
+ * PATCH /api/workspaces/:id/members/:userId
+ */
+export const updateWorkspaceMember = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      res.status(400).json({
+        success: false,
+        error: errors.array()[0].msg
+      });
+      return;
+    }
+    
+    const user = req.user;
+    const { id, userId } = req.params;
+    const { role } = req.body;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const membership = await findMemberWorkspace(id, user._id.toString());
+    
+    if (!membership) {
+      res.status(404).json({
+        success: false,
+        error: 'Workspace not found'
+      });
+      return;
+    }
+    
+    if (membership.role !== 'owner') {
+      res.status(403).json({
+        success: false,
+        error: 'Only workspace owners can manage members'
+      });
+      return;
+    }
+    
+    const { workspace } = membership;
+    const member = workspace.members.find((m) => m.user.toString() === userId);
+    
+    if (!member) {
+      res.status(404).json({
+        success: false,
+        error: 'Member not found'
+      });
+      return;
+    }
+    
+    const owners = workspace.members.filter((m) => m.role === 'owner');
+    
+    if (member.role === 'owner' && role !== 'owner' && owners.length === 1) {
+      res.status(400).json({
+        success: false,
+        error: 'A workspace must have at least one owner'
+      });
+      return;
+    }
+    
+    const previousRole = member.role;
+    member.role = role;
+    await workspace.save();
+    
+    await logAudit(user._id.toString(), 'workspace_member_update', {
+      workspaceId: id,
+      details: { member: userId, from: previousRole, to: role },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: 'Member role updated',
+      data: workspace
+    });
+  } catch (error) {
+    console.error('Update workspace member error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update member'
+    });
+  }
+};
+
+/**
+ * Remove a member (owners), or leave the workspace (any member)
+ * DELETE /api/workspaces/:id/members/:userId
+ */
+export const removeWorkspaceMember = async (
+  req: AuthRequest,
+  res: Response<ApiResponse>
+): Promise<void> => {
+  try {
+    const user = req.user;
+    const { id, userId } = req.params;
+    
+    if (!user) {
+      res.status(401).json({
+        success: false,
+        error: 'Not authenticated'
+      });
+      return;
+    }
+    
+    const membership = await findMemberWorkspace(id, user._id.toString());
+    
+    if (!membership) {
+      res.status(404).json({
+        success: false,
+        error: 'Workspace not found'
+      });
+      return;
+    }
+    
+    const isSelf = userId === user._id.toString();
+    
+    if (!isSelf && membership.role !== 'owner') {
+      res.status(403).json({
+        success: false,
+        error: 'Only workspace owners can manage members'
+      });
+      return;
+    }
+    
+    const { workspace } = membership;
+    const member = workspace.members.find((m) => m.user.toString() === userId);
+    
+    if (!member) {
+      res.status(404).json({
+        success: false,
+        error: 'Member not found'
+      });
+      return;
+    }
+    
+    const owners = workspace.members.filter((m) => m.role === 'owner');
+    
+    if (member.role === 'owner' && owners.length === 1) {
+      res.status(400).json({
+        success: false,
+        error: 'A workspace must have at least one owner'
+      });
+      return;
+    }
+    
+    workspace.members = workspace.members.filter((m) => m.user.toString() !== userId);
+    await workspace.save();
+    
+    await logAudit(user._id.toString(), 'workspace_member_remove', {
+      workspaceId: id,
+      details: { member: userId },
+      ipAddress: req.ip,
+      userAgent: req.headers['user-agent']
+    });
+    
+    res.json({
+      success: true,
+      message: isSelf ? 'You left the workspace' : 'Member removed successfully'
+    });
+  } catch (error) {
+    console.error('Remove workspace member error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to remove member'
+    });
+  }
+};
@@ -1,7 +1,6 @@
 import express from 'express';
 import cors from 'cors';
 import helmet from 'helmet';
-import path from 'path';
 import dotenv from 'dotenv';
 
 // Load environment variables
@@ -10,15 +9,34 @@ dotenv.config();
 import connectDB from './config/database';
 import routes from './routes';
 import { errorHandler, notFoundHandler } from './middleware/errorHandler';
+import { tusHeaders } from './middleware/tus';
+import { startAccountPurgeJob, startTrashPurgeJob, startUploadCleanupJob } from './services';
 
 const app = express();
 const PORT = process.env.PORT || 5000;
 
+// Trust the reverse proxy so req.ip (used for rate limiting and audit logs) is the client IP.
+// Express reads a numeric string as an address, so hop counts are converted first.
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY.trim();
+  
+  if (trustProxy === 'true' || trustProxy === 'false') {
+    app.set('trust proxy', trustProxy === 'true');
+  } else if (/^\d+$/.test(trustProxy)) {
+    app.set('trust proxy', Number(trustProxy));
+  } else {
+    app.set('trust proxy', trustProxy);
+  }
+}
+
 // Security middleware
 app.use(helmet({
   crossOriginResourcePolicy: { policy: "cross-origin" }
 }));
 
+// tus protocol headers (before CORS so preflight responses include them)
+app.use('/api/uploads', tusHeaders);
+
 // CORS configuration
 const allowedOrigins = process.env.ALLOWED_ORIGINS 
   ? process.env.ALLOWED_ORIGINS.split(',').map(origin => origin.trim())
@@ -48,17 +66,34 @@ app.use(cors({
     }
   },
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization']
+  methods: ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: [
+    'Content-Type',
+    'Authorization',
+    'Tus-Resumable',
+    'Upload-Length',
+    'Upload-Metadata',
+    'Upload-Offset',
+    'Range'
+  ],
+  exposedHeaders: [
+    'Location',
+    'Tus-Resumable',
+    'Tus-Version',
+    'Tus-Extension',
+    'Tus-Max-Size',
+    'Upload-Offset',
+    'Upload-Length',
+    'Upload-Expires',
+    'Accept-Ranges',
+    'Content-Range'
+  ]
 }));
 
 // Body parsers
 app.use(express.json({ limit: '10mb' }));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
-// Serve uploaded files statically
-app.use('/uploads', express.static(path.join(__dirname, '../uploads')));
-
 // Health check
 app.get('/health', (_req, res) => {
   res.json({ 
@@ -83,6 +118,15 @@ const startServer = async (): Promise<void> => {
     // Connect to MongoDB
     await connectDB();
     
+    // Purge accounts whose deletion grace period has ended
+    startAccountPurgeJob();
+    
+    // Empty trash items past their retention period
+    startTrashPurgeJob();
+    
+    // Remove resumable uploads that were abandoned
+    startUploadCleanupJob();
+    
     app.listen(PORT, () => {
       console.log(`
 ╔════════════════════════════════════════════════╗
@@ -1,14 +1,98 @@
 import { Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { User } from '../models';
-import { AuthRequest, ApiResponse } from '../types';
+import { AuthRequest, ApiResponse, IUser, ISession, IAccessToken, TokenScope, UserRole } from '../types';
+import {
+  findActiveSession,
+  touchSession,
+  isPersonalAccessToken,
+  findActiveAccessToken,
+  isLocalLoginEnabled
+} from '../services';
 
 interface JwtPayload {
   userId: string;
+  sid?: string;
   iat: number;
   exp: number;
 }
 
+interface ResolvedToken {
+  user: IUser | null;
+  session: ISession | null;
+}
+
+interface ResolvedAccessToken {
+  user: IUser | null;
+  accessToken: IAccessToken | null;
+}
+
+/**
+ * Verify an access token and load its user and session
+ */
+const resolveAccessToken = async (token: string): Promise<ResolvedToken> => {
+  const jwtSecret = process.env.JWT_SECRET || 'default-secret-change-in-production';
+  const decoded = jwt.verify(token, jwtSecret) as JwtPayload;
+  
+  // Tokens issued without a session cannot be revoked, so they are refused
+  if (!decoded.sid) {
+    return { user: null, session: null };
+  }
+  
+  const session = await findActiveSession(decoded.sid, decoded.userId);
+  
+  if (!session) {
+    return { user: null, session: null };
+  }
+  
+  const user = await User.findById(decoded.userId);
+  
+  return { user, session };
+};
+
+/**
+ * Look up a personal access token and load its user
+ */
+const resolvePersonalAccessToken = async (token: string): Promise<ResolvedAccessToken> => {
+  const accessToken = await findActiveAccessToken(token);
+  
+  if (!accessToken) {
+    return { user: null, accessToken: null };
+  }
+  
+  const user = await User.findById(accessToken.user);
+  
+  return { user, accessToken };
+};
+
+/**
+ * Accept the access token from ?access_token= on routes that media elements
+ * load directly, since they cannot send an Authorization header. Only
+ * short-lived session tokens are accepted; URLs end up in logs and history,
+ * so long-lived personal access tokens are refused.
+ */
+export const allowQueryToken = (
+  req: AuthRequest,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  const token = req.query.access_token;
+  
+  if (!req.headers.authorization && typeof token === 'string' && token) {
+    if (isPersonalAccessToken(token)) {
+      res.status(401).json({
+        success: false,
+        error: 'Personal access tokens must be sent in the Authorization header.'
+      });
+      return;
+    }
+    
+    req.headers.authorization = `Bearer ${token}`;
+  }
+  
+  next();
+};
+
 export const authenticate = async (
   req: AuthRequest,
   res: Response<ApiResponse>,
@@ -36,12 +120,50 @@ export const authenticate = async (
       return;
     }
     
-    // Verify token
-    const jwtSecret = process.env.JWT_SECRET || 'default-secret-change-in-production';
-    const decoded = jwt.verify(token, jwtSecret) as JwtPayload;
+    // Personal access tokens (scripts, CI)
+    if (isPersonalAccessToken(token)) {
+      const { user, accessToken } = await resolvePersonalAccessToken(token);
+      
+      if (!accessToken) {
+        res.status(401).json({
+          success: false,
+          error: 'Invalid or expired access token.'
+        });
+        return;
+      }
+      
+      if (!user) {
+        res.status(401).json({
+          success: false,
+          error: 'Invalid token. User not found.'
+        });
+        return;
+      }
+      
+      if (user.isDisabled) {
+        res.status(403).json({
+          success: false,
+          error: 'Account has been disabled.'
+        });
+        return;
+      }
+      
+      req.user = user;
+      req.tokenScopes = accessToken.scopes;
+      next();
+      return;
+    }
+    
+    // Verify token and session
+    const { user, session } = await resolveAccessToken(token);
     
-    // Find user
-    const user = await User.findById(decoded.userId);
+    if (!session) {
+      res.status(401).json({
+        success: false,
+        error: 'Session has ended. Please login again.'
+      });
+      return;
+    }
     
     if (!user) {
       res.status(401).json({
@@ -51,8 +173,19 @@ export const authenticate = async (
       return;
     }
     
-    // Attach user to request
+    if (user.isDisabled) {
+      res.status(403).json({
+        success: false,
+        error: 'Account has been disabled.'
+      });
+      return;
+    }
+    
+    await touchSession(session);
+    
+    // Attach user and session to request
     req.user = user;
+    req.sessionId = session._id.toString();
     next();
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
@@ -78,6 +211,115 @@ export const authenticate = async (
   }
 };
 
+/**
+ * Require a scope when authenticated with a personal access token.
+ * Session (JWT) logins are not scope-limited.
+ */
+export const requireScope = (scope: TokenScope) => (
+  req: AuthRequest,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  if (req.tokenScopes && !req.tokenScopes.includes(scope)) {
+    res.status(403).json({
+      success: false,
+      error: `Access token is missing the required scope: ${scope}`
+    });
+    return;
+  }
+  
+  next();
+};
+
+/**
+ * Require one of the given roles
+ */
+export const requireRole = (...roles: UserRole[]) => (
+  req: AuthRequest,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Not authenticated'
+    });
+    return;
+  }
+  
+  if (!roles.includes(req.user.role)) {
+    res.status(403).json({
+      success: false,
+      error: 'Insufficient permissions'
+    });
+    return;
+  }
+  
+  next();
+};
+
+/**
+ * Reject personal access tokens (account and credential management)
+ */
+export const requireSession = (
+  req: AuthRequest,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  if (!req.sessionId) {
+    res.status(403).json({
+      success: false,
+      error: 'This action requires an interactive login.'
+    });
+    return;
+  }
+  
+  next();
+};
+
+/**
+ * Block email/password endpoints when the deployment is SSO-only
+ */
+export const requireLocalLogin = (
+  _req: AuthRequest,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  if (!isLocalLoginEnabled()) {
+    res.status(403).json({
+      success: false,
+      error: 'Password login is disabled. Please sign in with single sign-on.'
+    });
+    return;
+  }
+  
+  next();
+};
+
+export const requireVerifiedEmail = (
+  req: AuthRequest,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Not authenticated'
+    });
+    return;
+  }
+  
+  if (!req.user.emailVerified) {
+    res.status(403).json({
+      success: false,
+      error: 'Please verify your email address first.'
+    });
+    return;
+  }
+  
+  next();
+};
+
 export const optionalAuth = async (
   req: AuthRequest,
   _res: Response,
@@ -88,12 +330,21 @@ export const optionalAuth = async (
     
     if (authHeader && authHeader.startsWith('Bearer ')) {
       const token = authHeader.split(' ')[1];
-      const jwtSecret = process.env.JWT_SECRET || 'default-secret-change-in-production';
-      const decoded = jwt.verify(token, jwtSecret) as JwtPayload;
-      const user = await User.findById(decoded.userId);
       
-      if (user) {
-        req.user = user;
+      if (isPersonalAccessToken(token)) {
+        const { user, accessToken } = await resolvePersonalAccessToken(token);
+        
+        if (user && accessToken && !user.isDisabled) {
+          req.user = user;
+          req.tokenScopes = accessToken.scopes;
+        }
+      } else {
+        const { user, session } = await resolveAccessToken(token);
+        
+        if (user && session && !user.isDisabled) {
+          req.user = user;
+          req.sessionId = session._id.toString();
+        }
       }
     }
   } catch {
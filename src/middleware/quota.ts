@@ -0,0 +1,35 @@
+import { Response, NextFunction } from 'express';
+import { AuthRequest, ApiResponse } from '../types';
+import { getStorageUsage } from '../services';
+
+/**
+ * Refuse multipart uploads whose body is larger than the user's remaining
+ * quota before multer writes anything to disk. Exact sizes are checked
+ * again once the files have been received.
+ */
+export const checkStorageQuota = (
+  req: AuthRequest,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  if (!req.user) {
+    res.status(401).json({
+      success: false,
+      error: 'Not authenticated'
+    });
+    return;
+  }
+  
+  const { remaining } = getStorageUsage(req.user);
+  const contentLength = parseInt(req.headers['content-length'] || '0', 10);
+  
+  if (remaining !== null && contentLength > remaining) {
+    res.status(413).json({
+      success: false,
+      error: 'Storage quota exceeded. Delete some files or ask an administrator for more space.'
+    });
+    return;
+  }
+  
+  next();
+};
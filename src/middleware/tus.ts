@@ -0,0 +1,44 @@
+import { Request, Response, NextFunction } from 'express';
+import { ApiResponse } from '../types';
+import { getTusMaxSize } from '../services';
+
+export const TUS_VERSION = '1.0.0';
+
+/**
+ * Add tus protocol headers. Runs before CORS so preflight (OPTIONS)
+ * responses also advertise the supported version and extensions.
+ */
+export const tusHeaders = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  res.setHeader('Tus-Resumable', TUS_VERSION);
+  
+  if (req.method === 'OPTIONS') {
+    res.setHeader('Tus-Version', TUS_VERSION);
+    res.setHeader('Tus-Extension', 'creation,termination,expiration');
+    res.setHeader('Tus-Max-Size', getTusMaxSize().toString());
+  }
+  
+  next();
+};
+
+/**
+ * Reject tus requests from clients speaking another protocol version
+ */
+export const requireTusResumable = (
+  req: Request,
+  res: Response<ApiResponse>,
+  next: NextFunction
+): void => {
+  if (req.headers['tus-resumable'] !== TUS_VERSION) {
+    res.status(412).json({
+      success: false,
+      error: `Unsupported tus version. Expected Tus-Resumable: ${TUS_VERSION}`
+    });
+    return;
+  }
+  
+  next();
+};
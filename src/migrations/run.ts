@@ -1,8 +1,13 @@
+import path from 'path';
+import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
 import mongoose from 'mongoose';
 import dotenv from 'dotenv';
 
 dotenv.config();
 
+import { getStorage } from '../storage';
+
 interface Migration {
   name: string;
   up: () => Promise<void>;
@@ -95,6 +100,654 @@ const migrations: Migration[] = [
         console.log('TTL index may not exist, skipping');
       }
     }
+  },
+  {
+    name: '003_create_session_indexes',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('sessions').createIndex({ refreshTokenHash: 1 });
+      await db.collection('sessions').createIndex({ previousTokenHash: 1 }, { sparse: true });
+      await db.collection('sessions').createIndex({ user: 1, lastSeenAt: -1 });
+      await db.collection('sessions').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+      
+      console.log('✅ Created session indexes');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('sessions').dropIndexes();
+      
+      console.log('✅ Dropped session indexes');
+    }
+  },
+  {
+    name: '004_create_user_token_indexes',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('usertokens').createIndex({ tokenHash: 1 }, { unique: true });
+      await db.collection('usertokens').createIndex({ user: 1, purpose: 1 });
+      await db.collection('usertokens').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+      
+      console.log('✅ Created user token indexes');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('usertokens').dropIndexes();
+      
+      console.log('✅ Dropped user token indexes');
+    }
+  },
+  {
+    name: '005_mark_existing_users_verified',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      // Accounts created before email verification existed keep working
+      const result = await db.collection('users').updateMany(
+        { emailVerified: { $exists: false } },
+        { $set: { emailVerified: true, emailVerifiedAt: new Date() } }
+      );
+      
+      console.log(`✅ Marked ${result.modifiedCount} existing users as verified`);
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('users').updateMany(
+        {},
+        { $unset: { emailVerified: '', emailVerifiedAt: '' } }
+      );
+      
+      console.log('✅ Removed email verification fields');
+    }
+  },
+  {
+    name: '006_create_access_token_indexes',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('accesstokens').createIndex({ tokenHash: 1 }, { unique: true });
+      await db.collection('accesstokens').createIndex({ user: 1, createdAt: -1 });
+      
+      console.log('✅ Created access token indexes');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('accesstokens').dropIndexes();
+      
+      console.log('✅ Dropped access token indexes');
+    }
+  },
+  {
+    name: '007_create_rate_limit_indexes',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('ratelimits').createIndex({ key: 1 }, { unique: true });
+      await db.collection('ratelimits').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+      await db.collection('loginthrottles').createIndex({ key: 1 }, { unique: true });
+      await db.collection('loginthrottles').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+      
+      console.log('✅ Created rate limit indexes');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('ratelimits').dropIndexes();
+      await db.collection('loginthrottles').dropIndexes();
+      
+      console.log('✅ Dropped rate limit indexes');
+    }
+  },
+  {
+    name: '008_create_oidc_indexes',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('users').createIndex(
+        { oidcIssuer: 1, oidcSubject: 1 },
+        { unique: true, partialFilterExpression: { oidcSubject: { $exists: true } } }
+      );
+      await db.collection('oidcloginstates').createIndex({ state: 1 }, { unique: true });
+      await db.collection('oidcloginstates').createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+      
+      console.log('✅ Created OIDC indexes');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('users').dropIndex('oidcIssuer_1_oidcSubject_1');
+      await db.collection('oidcloginstates').dropIndexes();
+      
+      console.log('✅ Dropped OIDC indexes');
+    }
+  },
+  {
+    name: '009_create_account_deletion_index',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('users').createIndex({ deletionScheduledFor: 1 });
+      
+      console.log('✅ Created account deletion index');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('users').dropIndex('deletionScheduledFor_1');
+      
+      console.log('✅ Dropped account deletion index');
+    }
+  },
+  {
+    name: '010_create_workspace_indexes',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('workspaces').createIndex({ 'members.user': 1 });
+      await db.collection('files').createIndex({ workspace: 1, createdAt: -1 });
+      await db.collection('shares').createIndex({ workspace: 1, isActive: 1 });
+      await db.collection('auditlogs').createIndex({ workspace: 1, createdAt: -1 });
+      
+      console.log('✅ Created workspace indexes');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('workspaces').dropIndexes();
+      await db.collection('files').dropIndex('workspace_1_createdAt_-1');
+      await db.collection('shares').dropIndex('workspace_1_isActive_1');
+      await db.collection('auditlogs').dropIndex('workspace_1_createdAt_-1');
+      
+      console.log('✅ Dropped workspace indexes');
+    }
+  },
+  {
+    name: '011_directory_privacy_and_contacts',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      // Backfill the lowercase search name used for prefix matching
+      const users = db.collection('users');
+      const cursor = users.find({ searchName: { $exists: false } }, { projection: { name: 1 } });
+      for await (const user of cursor) {
+        await users.updateOne(
+          { _id: user._id },
+          { $set: { searchName: String(user.name || '').toLowerCase() } }
+        );
+      }
+      await users.updateMany(
+        { discoverability: { $exists: false } },
+        { $set: { discoverability: 'everyone' } }
+      );
+      await users.createIndex({ searchName: 1 });
+      
+      const contacts = db.collection('contacts');
+      await contacts.createIndex({ owner: 1, contact: 1 }, { unique: true });
+      await contacts.createIndex({ owner: 1, lastInteractionAt: -1 });
+      await contacts.createIndex({ contact: 1 });
+      
+      // Seed contacts from existing user shares
+      const pairs = db.collection('shares').aggregate([
+        { $match: { shareType: 'user', sharedWith: { $ne: null } } },
+        {
+          $group: {
+            _id: { owner: '$owner', contact: '$sharedWith' },
+            shareCount: { $sum: 1 },
+            lastInteractionAt: { $max: '$updatedAt' }
+          }
+        }
+      ]);
+      for await (const pair of pairs) {
+        const { owner, contact } = pair._id;
+        const now = new Date();
+        await contacts.updateOne(
+          { owner, contact },
+          {
+            $set: { shareCount: pair.shareCount, lastInteractionAt: pair.lastInteractionAt },
+            $setOnInsert: { createdAt: now, updatedAt: now }
+          },
+          { upsert: true }
+        );
+        await contacts.updateOne(
+          { owner: contact, contact: owner },
+          {
+            $max: { lastInteractionAt: pair.lastInteractionAt },
+            $setOnInsert: { shareCount: 0, createdAt: now, updatedAt: now }
+          },
+          { upsert: true }
+        );
+      }
+      
+      console.log('✅ Created directory privacy indexes and seeded contacts');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('users').dropIndex('searchName_1');
+      await db.collection('contacts').drop();
+      
+      console.log('✅ Dropped contacts and directory privacy indexes');
+    }
+  },
+  {
+    name: '012_create_folder_indexes',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('folders').createIndex({ owner: 1, workspace: 1, parent: 1 });
+      await db.collection('folders').createIndex({ workspace: 1, parent: 1 });
+      await db.collection('folders').createIndex({ ancestors: 1 });
+      await db.collection('files').createIndex({ folder: 1, createdAt: -1 });
+      
+      console.log('✅ Created folder indexes');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('folders').dropIndexes();
+      await db.collection('files').dropIndex('folder_1_createdAt_-1');
+      
+      console.log('✅ Dropped folder indexes');
+    }
+  },
+  {
+    name: '013_create_file_versions',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('files').updateMany(
+        { version: { $exists: false } },
+        { $set: { version: 1, modifiedBy: null, modifiedAt: null } }
+      );
+      await db.collection('fileversions').createIndex({ file: 1, version: -1 }, { unique: true });
+      
+      console.log('✅ Created file version indexes');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('fileversions').dropIndexes();
+      
+      console.log('✅ Dropped file version indexes');
+    }
+  },
+  {
+    name: '014_add_file_trash',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('files').updateMany(
+        { deletedAt: { $exists: false } },
+        { $set: { deletedAt: null, deletedBy: null } }
+      );
+      await db.collection('shares').updateMany(
+        { pausedByTrash: { $exists: false } },
+        { $set: { pausedByTrash: false } }
+      );
+      await db.collection('files').createIndex({ deletedAt: 1 });
+      
+      console.log('✅ Added trash fields');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('files').dropIndex('deletedAt_1');
+      
+      console.log('✅ Dropped trash index');
+    }
+  },
+  {
+    name: '015_create_upload_session_indexes',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('uploadsessions').createIndex({ owner: 1, createdAt: -1 });
+      await db.collection('uploadsessions').createIndex({ expiresAt: 1 });
+      
+      console.log('✅ Created upload session indexes');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('uploadsessions').dropIndexes();
+      
+      console.log('✅ Dropped upload session indexes');
+    }
+  },
+  {
+    name: '016_add_file_storage_driver',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      // Existing content lives on local disk, addressed by filename
+      for (const collection of ['files', 'fileversions']) {
+        await db.collection(collection).updateMany(
+          { storage: { $exists: false } },
+          { $set: { storage: 'local' }, $unset: { path: '' } }
+        );
+      }
+      
+      console.log('✅ Added storage driver to files and versions');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      const uploadDir = path.join(process.env.UPLOAD_PATH || './uploads', path.sep);
+      
+      for (const collection of ['files', 'fileversions']) {
+        await db.collection(collection).updateMany(
+          { storage: 'local' },
+          [
+            { $set: { path: { $concat: [uploadDir, '$filename'] } } },
+            { $unset: 'storage' }
+          ]
+        );
+      }
+      
+      console.log('✅ Restored local file paths');
+    }
+  },
+  {
+    name: '017_create_content_blobs',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('fileblobs').createIndex({ hash: 1 }, { unique: true });
+      await db.collection('files').createIndex({ blob: 1 });
+      await db.collection('fileversions').createIndex({ blob: 1 });
+      
+      // Hash existing content; duplicates are folded into the first copy
+      let created = 0;
+      let deduplicated = 0;
+      
+      for (const collection of ['files', 'fileversions']) {
+        const records = db.collection(collection).find({ blob: { $exists: false } });
+        
+        for await (const record of records) {
+          const storage = getStorage(record.storage || 'local');
+          const stat = await storage.stat(record.filename);
+          
+          if (!stat) {
+            console.warn(`⚠️  Missing content for ${collection} ${record._id} (${record.filename})`);
+            continue;
+          }
+          
+          const hash = crypto.createHash('sha256');
+          await pipeline(await storage.getStream(record.filename), hash);
+          const digest = hash.digest('hex');
+          
+          let blob = await db.collection('fileblobs').findOneAndUpdate(
+            { hash: digest },
+            { $inc: { refCount: 1 } },
+            { returnDocument: 'after' }
+          );
+          
+          if (blob) {
+            await storage.delete(record.filename);
+            deduplicated++;
+          } else {
+            const now = new Date();
+            const result = await db.collection('fileblobs').insertOne({
+              hash: digest,
+              key: record.filename,
+              storage: storage.name,
+              size: stat.size,
+              refCount: 1,
+              createdAt: now,
+              updatedAt: now
+            });
+            blob = { _id: result.insertedId, key: record.filename, storage: storage.name };
+            created++;
+          }
+          
+          await db.collection(collection).updateOne(
+            { _id: record._id },
+            { $set: { blob: blob._id, hash: digest, filename: blob.key, storage: blob.storage } }
+          );
+        }
+      }
+      
+      console.log(`✅ Created ${created} blob(s), folded ${deduplicated} duplicate(s)`);
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      // Deduplicated records keep pointing at the shared content
+      for (const collection of ['files', 'fileversions']) {
+        await db.collection(collection).updateMany({}, { $unset: { blob: '', hash: '' } });
+        await db.collection(collection).dropIndex('blob_1');
+      }
+      await db.collection('fileblobs').drop();
+      
+      console.log('✅ Dropped content blobs');
+    }
+  },
+  {
+    name: '018_add_storage_quotas',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('users').updateMany(
+        { storageQuota: { $exists: false } },
+        { $set: { storageQuota: null } }
+      );
+      await db.collection('users').updateMany({}, { $set: { storageUsed: 0 } });
+      
+      // Charge current content to its uploader and old versions to theirs
+      const usage = [
+        ...await db.collection('files').aggregate([
+          { $group: { _id: { $ifNull: ['$modifiedBy', '$owner'] }, total: { $sum: '$size' } } }
+        ]).toArray(),
+        ...await db.collection('fileversions').aggregate([
+          { $group: { _id: '$uploadedBy', total: { $sum: '$size' } } }
+        ]).toArray()
+      ];
+      
+      for (const { _id, total } of usage) {
+        await db.collection('users').updateOne({ _id }, { $inc: { storageUsed: total } });
+      }
+      
+      console.log(`✅ Calculated storage usage for ${usage.length} uploader(s)`);
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('users').updateMany({}, { $unset: { storageQuota: '', storageUsed: '' } });
+      
+      console.log('✅ Removed storage quota fields');
+    }
+  },
+  {
+    name: '019_add_malware_scan_status',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      // Existing content has never been scanned; run `npm run files:scan`
+      for (const collection of ['fileblobs', 'files', 'fileversions']) {
+        await db.collection(collection).updateMany(
+          { scanStatus: { $exists: false } },
+          { $set: { scanStatus: 'pending' } }
+        );
+      }
+      
+      await db.collection('fileblobs').createIndex({ scanStatus: 1 });
+      
+      console.log('✅ Marked existing content as pending a malware scan');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('fileblobs').dropIndex('scanStatus_1');
+      for (const collection of ['fileblobs', 'files', 'fileversions']) {
+        await db.collection(collection).updateMany(
+          {},
+          { $unset: { scanStatus: '', scanSignature: '', scannedAt: '' } }
+        );
+      }
+      
+      console.log('✅ Removed malware scan status');
+    }
+  },
+  {
+    name: '020_add_file_search_index',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      // Text of existing documents is extracted by `npm run search:backfill`
+      await db.collection('files').createIndex(
+        { originalName: 'text', contentText: 'text' },
+        { name: 'file_search', weights: { originalName: 10, contentText: 1 } }
+      );
+      
+      console.log('✅ Created file search index');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('files').dropIndex('file_search');
+      await db.collection('fileblobs').updateMany({}, { $unset: { contentText: '' } });
+      await db.collection('files').updateMany({}, { $unset: { contentText: '' } });
+      
+      console.log('✅ Dropped file search index and extracted text');
+    }
+  },
+  {
+    name: '021_add_file_tags_and_metadata',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('files').updateMany(
+        { tags: { $exists: false } },
+        { $set: { tags: [], metadata: {} } }
+      );
+      await db.collection('files').createIndex({ tags: 1 });
+      
+      // A collection has one text index; rebuild it with tags included
+      await db.collection('files').dropIndex('file_search');
+      await db.collection('files').createIndex(
+        { originalName: 'text', tags: 'text', contentText: 'text' },
+        { name: 'file_search', weights: { originalName: 10, tags: 5, contentText: 1 } }
+      );
+      
+      console.log('✅ Added file tags and metadata');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      await db.collection('files').dropIndex('file_search');
+      await db.collection('files').createIndex(
+        { originalName: 'text', contentText: 'text' },
+        { name: 'file_search', weights: { originalName: 10, contentText: 1 } }
+      );
+      await db.collection('files').dropIndex('tags_1');
+      await db.collection('files').updateMany({}, { $unset: { tags: '', metadata: '' } });
+      
+      console.log('✅ Removed file tags and metadata');
+    }
+  },
+  {
+    name: '022_remove_public_file_urls',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      // The URL is now derived from the file ID and points at the download route
+      await db.collection('files').updateMany({}, { $unset: { url: '' } });
+      
+      console.log('✅ Removed stored file URLs');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      const baseUrl = process.env.BASE_URL || 'http://localhost:5000';
+      await db.collection('files').updateMany({}, [
+        { $set: { url: { $concat: [`${baseUrl}/uploads/`, '$filename'] } } }
+      ]);
+      
+      console.log('✅ Restored stored file URLs');
+    }
+  },
+  {
+    name: '023_serve_avatars_through_api',
+    up: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      // Existing avatars are already at avatars/<key>-<size>.webp in local storage
+      const baseUrl = process.env.BASE_URL || 'http://localhost:5000';
+      await db.collection('users').updateMany({ avatarKey: { $ne: null } }, [
+        {
+          $set: {
+            avatarStorage: 'local',
+            avatarUrl: { $concat: [`${baseUrl}/api/avatars/`, '$avatarKey', '-256.webp'] },
+            avatarSmallUrl: { $concat: [`${baseUrl}/api/avatars/`, '$avatarKey', '-64.webp'] }
+          }
+        }
+      ]);
+      
+      console.log('✅ Moved avatar URLs to the API');
+    },
+    down: async () => {
+      const db = mongoose.connection.db;
+      if (!db) throw new Error('Database not connected');
+      
+      const baseUrl = process.env.BASE_URL || 'http://localhost:5000';
+      await db.collection('users').updateMany({ avatarKey: { $ne: null } }, [
+        {
+          $set: {
+            avatarUrl: { $concat: [`${baseUrl}/uploads/avatars/`, '$avatarKey', '-256.webp'] },
+            avatarSmallUrl: { $concat: [`${baseUrl}/uploads/avatars/`, '$avatarKey', '-64.webp'] }
+          }
+        },
+        { $unset: 'avatarStorage' }
+      ]);
+      
+      console.log('✅ Moved avatar URLs back to static uploads');
+    }
   }
 ];
 
@@ -0,0 +1,69 @@
+import mongoose, { Schema } from 'mongoose';
+import { IAccessToken, TOKEN_SCOPES } from '../types';
+
+const accessTokenSchema = new Schema<IAccessToken>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required']
+    },
+    name: {
+      type: String,
+      required: [true, 'Token name is required'],
+      trim: true,
+      maxlength: [100, 'Token name cannot exceed 100 characters']
+    },
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      unique: true,
+      select: false
+    },
+    tokenPrefix: {
+      type: String,
+      required: [true, 'Token prefix is required']
+    },
+    scopes: {
+      type: [String],
+      enum: TOKEN_SCOPES,
+      validate: {
+        validator: (scopes: string[]) => scopes.length > 0,
+        message: 'At least one scope is required'
+      }
+    },
+    expiresAt: {
+      type: Date,
+      default: null
+    },
+    lastUsedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = ret._id;
+        ret.tokenHash = undefined;
+        return ret;
+      }
+    }
+  }
+);
+
+// Virtual to check if token is expired
+accessTokenSchema.virtual('isExpired').get(function () {
+  if (!this.expiresAt) return false;
+  return new Date() > this.expiresAt;
+});
+
+// Indexes
+// Note: tokenHash index is already created by unique: true in schema
+accessTokenSchema.index({ user: 1, createdAt: -1 });
+
+const AccessToken = mongoose.model<IAccessToken>('AccessToken', accessTokenSchema);
+
+export default AccessToken;
@@ -5,20 +5,49 @@ const auditLogSchema = new Schema<IAuditLog>(
   {
     user: {
       type: Schema.Types.ObjectId,
-      ref: 'User',
-      required: [true, 'User is required']
+      ref: 'User'
     },
     action: {
       type: String,
       enum: [
         'file_upload',
+        'file_upload_rejected',
+        'file_quarantined',
         'file_download',
         'file_delete',
         'file_share_user',
         'file_share_link',
         'share_revoke',
         'share_access',
-        'file_view'
+        'file_view',
+        'two_factor_enroll',
+        'two_factor_disable',
+        'two_factor_challenge_failed',
+        'login_failed',
+        'login_locked',
+        'admin_user_disable',
+        'admin_user_enable',
+        'admin_role_change',
+        'admin_password_reset',
+        'admin_quota_change',
+        'account_deletion_request',
+        'account_deletion_cancel',
+        'account_purge',
+        'account_export',
+        'workspace_create',
+        'workspace_delete',
+        'workspace_member_add',
+        'workspace_member_update',
+        'workspace_member_remove',
+        'folder_create',
+        'folder_move',
+        'folder_delete',
+        'file_move',
+        'file_metadata_update',
+        'file_version_upload',
+        'file_version_restore',
+        'file_restore',
+        'file_purge'
       ],
       required: [true, 'Action is required']
     },
@@ -30,6 +59,10 @@ const auditLogSchema = new Schema<IAuditLog>(
       type: Schema.Types.ObjectId,
       ref: 'Share'
     },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace'
+    },
     details: {
       type: Schema.Types.Mixed
     },
@@ -55,6 +88,7 @@ const auditLogSchema = new Schema<IAuditLog>(
 // Indexes for efficient querying
 auditLogSchema.index({ user: 1, createdAt: -1 });
 auditLogSchema.index({ file: 1, createdAt: -1 });
+auditLogSchema.index({ workspace: 1, createdAt: -1 });
 auditLogSchema.index({ action: 1, createdAt: -1 });
 auditLogSchema.index({ createdAt: -1 });
 
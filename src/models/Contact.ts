@@ -0,0 +1,44 @@
+import mongoose, { Schema } from 'mongoose';
+import { IContact } from '../types';
+
+const contactSchema = new Schema<IContact>(
+  {
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Owner is required']
+    },
+    contact: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Contact is required']
+    },
+    shareCount: {
+      type: Number,
+      default: 0
+    },
+    lastInteractionAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+contactSchema.index({ owner: 1, contact: 1 }, { unique: true });
+contactSchema.index({ owner: 1, lastInteractionAt: -1 });
+contactSchema.index({ contact: 1 });
+
+const Contact = mongoose.model<IContact>('Contact', contactSchema);
+
+export default Contact;
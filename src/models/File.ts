@@ -1,5 +1,33 @@
 import mongoose, { Schema } from 'mongoose';
 import { IFile } from '../types';
+import { getBaseUrl } from '../utils/helpers';
+
+const thumbnailSchema = new Schema(
+  {
+    size: {
+      type: Number,
+      required: [true, 'Thumbnail size is required']
+    },
+    format: {
+      type: String,
+      enum: ['webp', 'jpeg'],
+      required: [true, 'Thumbnail format is required']
+    },
+    width: {
+      type: Number,
+      required: [true, 'Thumbnail width is required']
+    },
+    height: {
+      type: Number,
+      required: [true, 'Thumbnail height is required']
+    },
+    bytes: {
+      type: Number,
+      required: [true, 'Thumbnail size in bytes is required']
+    }
+  },
+  { _id: false }
+);
 
 const fileSchema = new Schema<IFile>(
   {
@@ -19,25 +47,85 @@ const fileSchema = new Schema<IFile>(
       type: Number,
       required: [true, 'File size is required']
     },
-    path: {
+    blob: {
+      type: Schema.Types.ObjectId,
+      ref: 'FileBlob',
+      required: [true, 'Blob is required']
+    },
+    hash: {
       type: String,
-      required: [true, 'File path is required']
+      required: [true, 'Content hash is required']
     },
-    url: {
+    storage: {
       type: String,
-      required: [true, 'File URL is required']
+      enum: ['local', 's3'],
+      default: 'local'
+    },
+    thumbnails: {
+      type: [thumbnailSchema],
+      default: []
+    },
+    scanStatus: {
+      type: String,
+      enum: ['pending', 'clean', 'infected', 'error'],
+      default: 'pending'
+    },
+    contentText: {
+      type: String,
+      select: false
+    },
+    tags: {
+      type: [String],
+      default: []
+    },
+    metadata: {
+      type: Map,
+      of: String,
+      default: {}
     },
     owner: {
       type: Schema.Types.ObjectId,
       ref: 'User',
       required: [true, 'File owner is required']
     },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      default: null
+    },
+    folder: {
+      type: Schema.Types.ObjectId,
+      ref: 'Folder',
+      default: null
+    },
     isCompressed: {
       type: Boolean,
       default: false
     },
     originalSize: {
       type: Number
+    },
+    version: {
+      type: Number,
+      default: 1
+    },
+    modifiedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+    modifiedAt: {
+      type: Date,
+      default: null
+    },
+    deletedAt: {
+      type: Date,
+      default: null
+    },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
     }
   },
   {
@@ -64,6 +152,11 @@ fileSchema.virtual('formattedSize').get(function () {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 });
 
+// Virtual for the download URL. Content is only served to authenticated requests.
+fileSchema.virtual('url').get(function () {
+  return `${getBaseUrl()}/api/files/${this._id}/download`;
+});
+
 // Virtual for file extension
 fileSchema.virtual('extension').get(function () {
   const parts = this.originalName.split('.');
@@ -72,8 +165,17 @@ fileSchema.virtual('extension').get(function () {
 
 // Indexes
 fileSchema.index({ owner: 1, createdAt: -1 });
+fileSchema.index({ workspace: 1, createdAt: -1 });
+fileSchema.index({ folder: 1, createdAt: -1 });
+fileSchema.index({ deletedAt: 1 });
 fileSchema.index({ filename: 1 });
+fileSchema.index({ blob: 1 });
 fileSchema.index({ mimeType: 1 });
+fileSchema.index({ tags: 1 });
+fileSchema.index(
+  { originalName: 'text', tags: 'text', contentText: 'text' },
+  { name: 'file_search', weights: { originalName: 10, tags: 5, contentText: 1 } }
+);
 
 const File = mongoose.model<IFile>('File', fileSchema);
 
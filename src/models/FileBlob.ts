@@ -0,0 +1,91 @@
+import mongoose, { Schema } from 'mongoose';
+import { IFileBlob } from '../types';
+
+const thumbnailSchema = new Schema(
+  {
+    size: {
+      type: Number,
+      required: [true, 'Thumbnail size is required']
+    },
+    format: {
+      type: String,
+      enum: ['webp', 'jpeg'],
+      required: [true, 'Thumbnail format is required']
+    },
+    width: {
+      type: Number,
+      required: [true, 'Thumbnail width is required']
+    },
+    height: {
+      type: Number,
+      required: [true, 'Thumbnail height is required']
+    },
+    bytes: {
+      type: Number,
+      required: [true, 'Thumbnail size in bytes is required']
+    }
+  },
+  { _id: false }
+);
+
+const fileBlobSchema = new Schema<IFileBlob>(
+  {
+    hash: {
+      type: String,
+      required: [true, 'Content hash is required']
+    },
+    key: {
+      type: String,
+      required: [true, 'Storage key is required']
+    },
+    storage: {
+      type: String,
+      enum: ['local', 's3'],
+      default: 'local'
+    },
+    size: {
+      type: Number,
+      required: [true, 'Size is required']
+    },
+    refCount: {
+      type: Number,
+      default: 1
+    },
+    thumbnails: {
+      type: [thumbnailSchema],
+      default: []
+    },
+    scanStatus: {
+      type: String,
+      enum: ['pending', 'clean', 'infected', 'error'],
+      default: 'pending'
+    },
+    scanSignature: {
+      type: String
+    },
+    scannedAt: {
+      type: Date
+    },
+    contentText: {
+      type: String
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+fileBlobSchema.index({ hash: 1 }, { unique: true });
+fileBlobSchema.index({ scanStatus: 1 });
+
+const FileBlob = mongoose.model<IFileBlob>('FileBlob', fileBlobSchema);
+
+export default FileBlob;
@@ -0,0 +1,85 @@
+import mongoose, { Schema } from 'mongoose';
+import { IFileVersion } from '../types';
+
+const fileVersionSchema = new Schema<IFileVersion>(
+  {
+    file: {
+      type: Schema.Types.ObjectId,
+      ref: 'File',
+      required: [true, 'File is required']
+    },
+    version: {
+      type: Number,
+      required: [true, 'Version number is required']
+    },
+    filename: {
+      type: String,
+      required: [true, 'Filename is required']
+    },
+    originalName: {
+      type: String,
+      required: [true, 'Original filename is required']
+    },
+    mimeType: {
+      type: String,
+      required: [true, 'MIME type is required']
+    },
+    size: {
+      type: Number,
+      required: [true, 'File size is required']
+    },
+    blob: {
+      type: Schema.Types.ObjectId,
+      ref: 'FileBlob',
+      required: [true, 'Blob is required']
+    },
+    hash: {
+      type: String,
+      required: [true, 'Content hash is required']
+    },
+    storage: {
+      type: String,
+      enum: ['local', 's3'],
+      default: 'local'
+    },
+    scanStatus: {
+      type: String,
+      enum: ['pending', 'clean', 'infected', 'error'],
+      default: 'pending'
+    },
+    isCompressed: {
+      type: Boolean,
+      default: false
+    },
+    originalSize: {
+      type: Number
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Uploader is required']
+    },
+    uploadedAt: {
+      type: Date,
+      required: [true, 'Upload date is required']
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+fileVersionSchema.index({ file: 1, version: -1 }, { unique: true });
+fileVersionSchema.index({ blob: 1 });
+
+const FileVersion = mongoose.model<IFileVersion>('FileVersion', fileVersionSchema);
+
+export default FileVersion;
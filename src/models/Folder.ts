@@ -0,0 +1,51 @@
+import mongoose, { Schema } from 'mongoose';
+import { IFolder } from '../types';
+
+const folderSchema = new Schema<IFolder>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Folder name is required'],
+      trim: true,
+      maxlength: [255, 'Folder name cannot exceed 255 characters']
+    },
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Folder owner is required']
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      default: null
+    },
+    parent: {
+      type: Schema.Types.ObjectId,
+      ref: 'Folder',
+      default: null
+    },
+    ancestors: {
+      type: [Schema.Types.ObjectId],
+      default: []
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+folderSchema.index({ owner: 1, workspace: 1, parent: 1 });
+folderSchema.index({ workspace: 1, parent: 1 });
+folderSchema.index({ ancestors: 1 });
+
+const Folder = mongoose.model<IFolder>('Folder', folderSchema);
+
+export default Folder;
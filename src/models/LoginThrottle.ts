@@ -0,0 +1,38 @@
+import mongoose, { Schema } from 'mongoose';
+import { ILoginThrottle } from '../types';
+
+const loginThrottleSchema = new Schema<ILoginThrottle>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Key is required'],
+      unique: true
+    },
+    failures: {
+      type: Number,
+      default: 0
+    },
+    lockedUntil: {
+      type: Date,
+      default: null
+    },
+    lastFailureAt: {
+      type: Date
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration is required']
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+// Note: key index is already created by unique: true in schema
+loginThrottleSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const LoginThrottle = mongoose.model<ILoginThrottle>('LoginThrottle', loginThrottleSchema);
+
+export default LoginThrottle;
@@ -0,0 +1,39 @@
+import mongoose, { Schema } from 'mongoose';
+import { IOidcLoginState } from '../types';
+
+const oidcLoginStateSchema = new Schema<IOidcLoginState>(
+  {
+    state: {
+      type: String,
+      required: [true, 'State is required'],
+      unique: true
+    },
+    nonce: {
+      type: String,
+      required: [true, 'Nonce is required']
+    },
+    codeVerifier: {
+      type: String,
+      required: [true, 'Code verifier is required']
+    },
+    returnTo: {
+      type: String
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration is required']
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+// Note: state index is already created by unique: true in schema
+// Remove abandoned logins once they have expired
+oidcLoginStateSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const OidcLoginState = mongoose.model<IOidcLoginState>('OidcLoginState', oidcLoginStateSchema);
+
+export default OidcLoginState;
@@ -0,0 +1,28 @@
+import mongoose, { Schema } from 'mongoose';
+import { IRateLimit } from '../types';
+
+const rateLimitSchema = new Schema<IRateLimit>(
+  {
+    key: {
+      type: String,
+      required: [true, 'Key is required'],
+      unique: true
+    },
+    value: {
+      type: Schema.Types.Mixed,
+      required: [true, 'Value is required']
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration is required']
+    }
+  }
+);
+
+// Indexes
+// Note: key index is already created by unique: true in schema
+rateLimitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const RateLimit = mongoose.model<IRateLimit>('RateLimit', rateLimitSchema);
+
+export default RateLimit;
@@ -0,0 +1,71 @@
+import mongoose, { Schema } from 'mongoose';
+import { ISession } from '../types';
+
+const sessionSchema = new Schema<ISession>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required']
+    },
+    refreshTokenHash: {
+      type: String,
+      required: [true, 'Refresh token hash is required'],
+      select: false
+    },
+    previousTokenHash: {
+      type: String,
+      select: false
+    },
+    userAgent: {
+      type: String
+    },
+    ipAddress: {
+      type: String
+    },
+    lastSeenAt: {
+      type: Date,
+      default: Date.now
+    },
+    rotatedAt: {
+      type: Date
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration is required']
+    },
+    revokedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = ret._id;
+        ret.refreshTokenHash = undefined;
+        ret.previousTokenHash = undefined;
+        return ret;
+      }
+    }
+  }
+);
+
+// Virtual to check if session can still be used
+sessionSchema.virtual('isValid').get(function () {
+  if (this.revokedAt) return false;
+  return new Date() < this.expiresAt;
+});
+
+// Indexes
+sessionSchema.index({ refreshTokenHash: 1 });
+sessionSchema.index({ previousTokenHash: 1 }, { sparse: true });
+sessionSchema.index({ user: 1, lastSeenAt: -1 });
+// Remove sessions once they have expired
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const Session = mongoose.model<ISession>('Session', sessionSchema);
+
+export default Session;
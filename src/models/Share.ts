@@ -13,6 +13,11 @@ const shareSchema = new Schema<IShare>(
       ref: 'User',
       required: [true, 'Owner is required']
     },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      default: null
+    },
     shareType: {
       type: String,
       enum: ['user', 'link'],
@@ -42,6 +47,10 @@ const shareSchema = new Schema<IShare>(
     isActive: {
       type: Boolean,
       default: true
+    },
+    pausedByTrash: {
+      type: Boolean,
+      default: false
     }
   },
   {
@@ -103,6 +112,7 @@ shareSchema.statics.findValidShareByLink = async function (shareLink: string) {
 // Note: shareLink index is already created by unique: true, sparse: true in schema
 shareSchema.index({ file: 1, sharedWith: 1 });
 shareSchema.index({ owner: 1 });
+shareSchema.index({ workspace: 1, isActive: 1 });
 shareSchema.index({ expiresAt: 1 });
 shareSchema.index({ file: 1, shareType: 1, isActive: 1 });
 
@@ -0,0 +1,70 @@
+import mongoose, { Schema } from 'mongoose';
+import { IUploadSession } from '../types';
+
+const uploadSessionSchema = new Schema<IUploadSession>(
+  {
+    owner: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Owner is required']
+    },
+    workspace: {
+      type: Schema.Types.ObjectId,
+      ref: 'Workspace',
+      default: null
+    },
+    folder: {
+      type: Schema.Types.ObjectId,
+      ref: 'Folder',
+      default: null
+    },
+    originalName: {
+      type: String,
+      required: [true, 'Original filename is required']
+    },
+    mimeType: {
+      type: String,
+      default: 'application/octet-stream'
+    },
+    length: {
+      type: Number,
+      required: [true, 'Upload length is required']
+    },
+    offset: {
+      type: Number,
+      default: 0
+    },
+    path: {
+      type: String,
+      required: [true, 'Upload path is required']
+    },
+    file: {
+      type: Schema.Types.ObjectId,
+      ref: 'File',
+      default: null
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration is required']
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret: Record<string, unknown>) => {
+        ret.id = ret._id;
+        ret.path = undefined;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+uploadSessionSchema.index({ owner: 1, createdAt: -1 });
+uploadSessionSchema.index({ expiresAt: 1 });
+
+const UploadSession = mongoose.model<IUploadSession>('UploadSession', uploadSessionSchema);
+
+export default UploadSession;
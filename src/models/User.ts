@@ -24,6 +24,110 @@ const userSchema = new Schema<IUser>(
       trim: true,
       minlength: [2, 'Name must be at least 2 characters'],
       maxlength: [50, 'Name cannot exceed 50 characters']
+    },
+    role: {
+      type: String,
+      enum: ['user', 'admin'],
+      default: 'user'
+    },
+    isDisabled: {
+      type: Boolean,
+      default: false
+    },
+    disabledAt: {
+      type: Date,
+      default: null
+    },
+    disabledReason: {
+      type: String,
+      trim: true,
+      maxlength: [500, 'Reason cannot exceed 500 characters']
+    },
+    passwordResetRequired: {
+      type: Boolean,
+      default: false
+    },
+    passwordChangedAt: {
+      type: Date
+    },
+    hasPassword: {
+      type: Boolean,
+      default: true
+    },
+    emailVerified: {
+      type: Boolean,
+      default: false
+    },
+    emailVerifiedAt: {
+      type: Date
+    },
+    twoFactorEnabled: {
+      type: Boolean,
+      default: false
+    },
+    twoFactorSecret: {
+      type: String,
+      select: false
+    },
+    twoFactorPendingSecret: {
+      type: String,
+      select: false
+    },
+    twoFactorRecoveryCodes: {
+      type: [String],
+      select: false
+    },
+    twoFactorLastUsedStep: {
+      type: Number,
+      select: false
+    },
+    oidcIssuer: {
+      type: String
+    },
+    oidcSubject: {
+      type: String
+    },
+    deletionRequestedAt: {
+      type: Date,
+      default: null
+    },
+    deletionScheduledFor: {
+      type: Date,
+      default: null
+    },
+    avatarKey: {
+      type: String,
+      default: null
+    },
+    avatarStorage: {
+      type: String,
+      enum: ['local', 's3'],
+      default: 'local'
+    },
+    avatarUrl: {
+      type: String,
+      default: null
+    },
+    avatarSmallUrl: {
+      type: String,
+      default: null
+    },
+    searchName: {
+      type: String
+    },
+    discoverability: {
+      type: String,
+      enum: ['everyone', 'contacts', 'email'],
+      default: 'everyone'
+    },
+    storageQuota: {
+      type: Number,
+      min: [0, 'Storage quota cannot be negative'],
+      default: null
+    },
+    storageUsed: {
+      type: Number,
+      default: 0
     }
   },
   {
@@ -31,12 +135,25 @@ const userSchema = new Schema<IUser>(
     toJSON: {
       transform: (_doc, ret: Record<string, unknown>) => {
         ret.password = undefined;
+        ret.twoFactorSecret = undefined;
+        ret.twoFactorPendingSecret = undefined;
+        ret.twoFactorRecoveryCodes = undefined;
+        ret.twoFactorLastUsedStep = undefined;
+        ret.searchName = undefined;
         return ret;
       }
     }
   }
 );
 
+// Keep the lowercase name used for prefix search in sync
+userSchema.pre('save', function (next) {
+  if (this.isModified('name')) {
+    this.searchName = this.name.toLowerCase();
+  }
+  next();
+});
+
 // Hash password before saving
 userSchema.pre('save', async function (next) {
   if (!this.isModified('password')) {
@@ -46,6 +163,11 @@ userSchema.pre('save', async function (next) {
   try {
     const salt = await bcrypt.genSalt(12);
     this.password = await bcrypt.hash(this.password, salt);
+    
+    if (!this.isNew) {
+      this.passwordChangedAt = new Date();
+    }
+    
     next();
   } catch (error) {
     next(error as Error);
@@ -62,6 +184,13 @@ userSchema.methods.comparePassword = async function (
 // Indexes
 // Note: email index is already created by unique: true in schema
 userSchema.index({ createdAt: -1 });
+userSchema.index({ role: 1 });
+userSchema.index({ searchName: 1 });
+userSchema.index({ deletionScheduledFor: 1 });
+userSchema.index(
+  { oidcIssuer: 1, oidcSubject: 1 },
+  { unique: true, partialFilterExpression: { oidcSubject: { $exists: true } } }
+);
 
 const User = mongoose.model<IUser>('User', userSchema);
 
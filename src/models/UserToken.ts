@@ -0,0 +1,43 @@
+import mongoose, { Schema } from 'mongoose';
+import { IUserToken } from '../types';
+
+const userTokenSchema = new Schema<IUserToken>(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'User is required']
+    },
+    purpose: {
+      type: String,
+      enum: ['password_reset', 'email_verification', 'oidc_login'],
+      required: [true, 'Token purpose is required']
+    },
+    tokenHash: {
+      type: String,
+      required: [true, 'Token hash is required'],
+      unique: true
+    },
+    expiresAt: {
+      type: Date,
+      required: [true, 'Expiration is required']
+    },
+    usedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  {
+    timestamps: true
+  }
+);
+
+// Indexes
+// Note: tokenHash index is already created by unique: true in schema
+userTokenSchema.index({ user: 1, purpose: 1 });
+// Remove tokens once they have expired
+userTokenSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+const UserToken = mongoose.model<IUserToken>('UserToken', userTokenSchema);
+
+export default UserToken;
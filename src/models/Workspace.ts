@@ -0,0 +1,60 @@
+import mongoose, { Schema } from 'mongoose';
+import { IWorkspace } from '../types';
+
+const workspaceMemberSchema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Member user is required']
+    },
+    role: {
+      type: String,
+      enum: ['owner', 'editor', 'viewer'],
+      required: [true, 'Member role is required']
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now
+    }
+  },
+  { _id: false }
+);
+
+const workspaceSchema = new Schema<IWorkspace>(
+  {
+    name: {
+      type: String,
+      required: [true, 'Workspace name is required'],
+      trim: true,
+      minlength: [2, 'Workspace name must be at least 2 characters'],
+      maxlength: [100, 'Workspace name cannot exceed 100 characters']
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: [true, 'Creator is required']
+    },
+    members: {
+      type: [workspaceMemberSchema],
+      default: []
+    }
+  },
+  {
+    timestamps: true,
+    toJSON: {
+      virtuals: true,
+      transform: (_doc, ret) => {
+        ret.id = ret._id;
+        return ret;
+      }
+    }
+  }
+);
+
+// Indexes
+workspaceSchema.index({ 'members.user': 1 });
+
+const Workspace = mongoose.model<IWorkspace>('Workspace', workspaceSchema);
+
+export default Workspace;
@@ -3,3 +3,15 @@ export { default as File } from './File';
 export { default as Share } from './Share';
 export { default as AuditLog } from './AuditLog';
 
+export { default as Session } from './Session';
+export { default as UserToken } from './UserToken';
+export { default as AccessToken } from './AccessToken';
+export { default as RateLimit } from './RateLimit';
+export { default as LoginThrottle } from './LoginThrottle';
+export { default as OidcLoginState } from './OidcLoginState';
+export { default as Workspace } from './Workspace';
+export { default as Contact } from './Contact';
+export { default as Folder } from './Folder';
+export { default as FileVersion } from './FileVersion';
+export { default as UploadSession } from './UploadSession';
+export { default as FileBlob } from './FileBlob';
@@ -0,0 +1,66 @@
+import { Router } from 'express';
+import { body, query } from 'express-validator';
+import {
+  listUsers,
+  getUserDetails,
+  updateUserRole,
+  updateUserQuota,
+  disableUser,
+  enableUser,
+  forcePasswordReset,
+  getAdminFileDetails,
+  getGlobalAudit
+} from '../controllers';
+import { authenticate, requireRole, requireSession } from '../middleware/auth';
+
+const router = Router();
+
+// Validation rules
+const updateRoleValidation = [
+  body('role')
+    .isIn(['user', 'admin'])
+    .withMessage('Role must be user or admin')
+];
+
+const updateQuotaValidation = [
+  body('quota')
+    .custom((value) => value === null || (Number.isInteger(value) && value >= 0))
+    .withMessage('Quota must be a whole number of bytes (0 for unlimited) or null for the default')
+];
+
+const auditQueryValidation = [
+  query('userId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid user ID'),
+  query('fileId')
+    .optional()
+    .isMongoId()
+    .withMessage('Invalid file ID'),
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From must be a valid date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be a valid date')
+];
+
+// All routes require an interactive admin login
+router.use(authenticate, requireSession, requireRole('admin'));
+
+// User administration
+router.get('/users', listUsers);
+router.get('/users/:id', getUserDetails);
+router.patch('/users/:id/role', updateRoleValidation, updateUserRole);
+router.patch('/users/:id/quota', updateQuotaValidation, updateUserQuota);
+router.post('/users/:id/disable', disableUser);
+router.post('/users/:id/enable', enableUser);
+router.post('/users/:id/password-reset', forcePasswordReset);
+
+// Files and audit
+router.get('/files/:id', getAdminFileDetails);
+router.get('/audit', auditQueryValidation, getGlobalAudit);
+
+export default router;
@@ -1,15 +1,16 @@
 import { Router } from 'express';
-import { getFileAudit, getMyAudit } from '../controllers';
-import { authenticate } from '../middleware/auth';
+import { getFileAudit, getMyAudit, getWorkspaceAudit } from '../controllers';
+import { authenticate, requireScope } from '../middleware/auth';
 
 const router = Router();
 
 // All routes require authentication
-router.use(authenticate);
+router.use(authenticate, requireScope('audit:read'));
 
 // Audit routes
 router.get('/me', getMyAudit);
 router.get('/file/:fileId', getFileAudit);
+router.get('/workspace/:workspaceId', getWorkspaceAudit);
 
 export default router;
 
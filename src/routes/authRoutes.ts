@@ -1,7 +1,38 @@
 import { Router } from 'express';
 import { body } from 'express-validator';
-import { register, login, getProfile, searchUsers } from '../controllers';
-import { authenticate } from '../middleware/auth';
+import {
+  register,
+  login,
+  getProfile,
+  updateProfile,
+  searchUsers,
+  refresh,
+  logout,
+  getSessions,
+  deleteSession,
+  forgotPassword,
+  resetPassword,
+  changePassword,
+  verifyEmail,
+  resendVerification,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  verifyTwoFactorChallenge,
+  getAuthProviders,
+  startOidcLogin,
+  handleOidcCallback,
+  exchangeOidcCode,
+  requestAccountDeletion,
+  cancelAccountDeletion,
+  downloadTakeout,
+  uploadAvatar,
+  deleteAvatar
+} from '../controllers';
+import { authenticate, requireLocalLogin, requireScope, requireSession } from '../middleware/auth';
+import { authRateLimiter } from '../config/rateLimiter';
+import { avatarUpload } from '../config/multer';
 
 const router = Router();
 
@@ -30,11 +61,147 @@ const loginValidation = [
     .withMessage('Password is required')
 ];
 
+const updateProfileValidation = [
+  body('name')
+    .optional()
+    .trim()
+    .isLength({ min: 2, max: 50 })
+    .withMessage('Name must be between 2 and 50 characters'),
+  body('email')
+    .optional()
+    .isEmail()
+    .withMessage('Please enter a valid email')
+    .normalizeEmail(),
+  body('currentPassword')
+    .optional()
+    .isString()
+    .withMessage('Current password must be a string'),
+  body('discoverability')
+    .optional()
+    .isIn(['everyone', 'contacts', 'email'])
+    .withMessage('Discoverability must be everyone, contacts or email')
+];
+
+const refreshValidation = [
+  body('refreshToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Refresh token is required')
+];
+
+const forgotPasswordValidation = [
+  body('email')
+    .isEmail()
+    .withMessage('Please enter a valid email')
+    .normalizeEmail()
+];
+
+const resetPasswordValidation = [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Reset token is required'),
+  body('password')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters')
+];
+
+const changePasswordValidation = [
+  body('currentPassword')
+    .notEmpty()
+    .withMessage('Current password is required'),
+  body('newPassword')
+    .isLength({ min: 6 })
+    .withMessage('Password must be at least 6 characters')
+];
+
+const verifyEmailValidation = [
+  body('token')
+    .isString()
+    .notEmpty()
+    .withMessage('Verification token is required')
+];
+
+const totpCodeValidation = [
+  body('code')
+    .isString()
+    .matches(/^\d{6}$/)
+    .withMessage('Verification code must be 6 digits')
+];
+
+const secondFactorValidation = [
+  body('code')
+    .optional()
+    .isString()
+    .withMessage('Verification code must be a string'),
+  body('recoveryCode')
+    .optional()
+    .isString()
+    .withMessage('Recovery code must be a string'),
+  body()
+    .custom((value) => Boolean(value.code || value.recoveryCode))
+    .withMessage('Verification code or recovery code is required')
+];
+
+const disableTwoFactorValidation = [
+  body('password')
+    .optional()
+    .isString()
+    .withMessage('Password must be a string'),
+  ...secondFactorValidation
+];
+
+const twoFactorChallengeValidation = [
+  body('challengeToken')
+    .isString()
+    .notEmpty()
+    .withMessage('Challenge token is required'),
+  ...secondFactorValidation
+];
+
+const oidcTokenValidation = [
+  body('code')
+    .isString()
+    .notEmpty()
+    .withMessage('Login code is required')
+];
+
+const accountDeletionValidation = [
+  body('password')
+    .optional()
+    .isString()
+    .withMessage('Password must be a string')
+];
+
 // Routes
-router.post('/register', registerValidation, register);
-router.post('/login', loginValidation, login);
-router.get('/me', authenticate, getProfile);
-router.get('/users/search', authenticate, searchUsers);
+router.post('/register', requireLocalLogin, registerValidation, register);
+router.post('/login', requireLocalLogin, authRateLimiter, loginValidation, login);
+router.get('/me', authenticate, requireScope('profile:read'), getProfile);
+router.patch('/me', authenticate, requireSession, updateProfileValidation, updateProfile);
+router.put('/me/avatar', authenticate, requireSession, avatarUpload.single('avatar'), uploadAvatar);
+router.delete('/me/avatar', authenticate, requireSession, deleteAvatar);
+router.get('/me/takeout', authenticate, requireSession, downloadTakeout);
+router.post('/me/deletion', authenticate, requireSession, accountDeletionValidation, requestAccountDeletion);
+router.delete('/me/deletion', authenticate, requireSession, cancelAccountDeletion);
+router.get('/users/search', authenticate, requireScope('users:read'), searchUsers);
+router.post('/refresh', refreshValidation, refresh);
+router.post('/logout', authenticate, requireSession, logout);
+router.get('/sessions', authenticate, requireSession, getSessions);
+router.delete('/sessions/:id', authenticate, requireSession, deleteSession);
+router.post('/password/forgot', requireLocalLogin, authRateLimiter, forgotPasswordValidation, forgotPassword);
+router.post('/password/reset', requireLocalLogin, authRateLimiter, resetPasswordValidation, resetPassword);
+router.patch('/password', requireLocalLogin, authenticate, requireSession, changePasswordValidation, changePassword);
+router.post('/email/verify', verifyEmailValidation, verifyEmail);
+router.post('/email/resend', authenticate, requireSession, resendVerification);
+router.post('/2fa/setup', authenticate, requireSession, setupTwoFactor);
+router.post('/2fa/enable', authenticate, requireSession, totpCodeValidation, enableTwoFactor);
+router.post('/2fa/disable', authenticate, requireSession, disableTwoFactorValidation, disableTwoFactor);
+router.post('/2fa/recovery-codes', authenticate, requireSession, totpCodeValidation, regenerateRecoveryCodes);
+router.post('/2fa/challenge', authRateLimiter, twoFactorChallengeValidation, verifyTwoFactorChallenge);
+router.get('/providers', getAuthProviders);
+router.get('/oidc/login', startOidcLogin);
+router.get('/oidc/callback', handleOidcCallback);
+router.post('/oidc/token', authRateLimiter, oidcTokenValidation, exchangeOidcCode);
 
 export default router;
 
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+import { getAvatarImage } from '../controllers';
+
+const router = Router();
+
+// Avatars are public
+router.get('/:name', getAvatarImage);
+
+export default router;
@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import { getContacts, removeContact } from '../controllers';
+import { authenticate, requireScope } from '../middleware/auth';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Contact routes
+router.get('/', requireScope('shares:read'), getContacts);
+router.delete('/:userId', requireScope('shares:write'), removeContact);
+
+export default router;
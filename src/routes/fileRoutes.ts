@@ -1,29 +1,143 @@
 import { Router } from 'express';
+import { body, query } from 'express-validator';
 import { 
   uploadFiles, 
   getMyFiles, 
   getSharedWithMe,
+  searchFiles,
+  getTags,
+  addTags,
+  removeTag,
+  updateMetadata,
   getFileById, 
   downloadFile, 
   deleteFile,
-  getFileStats
+  streamFile,
+  getFileThumbnail,
+  getTrash,
+  restoreFile,
+  deleteFilePermanently,
+  moveFile,
+  getFileStats,
+  uploadNewVersion,
+  getVersions,
+  downloadVersion,
+  restoreVersion
 } from '../controllers';
-import { authenticate } from '../middleware/auth';
+import { authenticate, allowQueryToken, requireScope } from '../middleware/auth';
+import { checkStorageQuota } from '../middleware/quota';
 import { upload } from '../config/multer';
+import {
+  MAX_TAGS_PER_FILE,
+  MAX_TAG_LENGTH,
+  MAX_METADATA_KEYS,
+  MAX_METADATA_VALUE_LENGTH,
+  METADATA_KEY_PATTERN
+} from '../types';
 
 const router = Router();
 
+// Validation rules
+const moveFileValidation = [
+  body('folderId')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid folder ID')
+];
+
+const addTagsValidation = [
+  body('tags')
+    .isArray({ min: 1, max: MAX_TAGS_PER_FILE })
+    .withMessage(`Tags must be a list of 1 to ${MAX_TAGS_PER_FILE} tags`),
+  body('tags.*')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: MAX_TAG_LENGTH })
+    .withMessage(`Each tag must be between 1 and ${MAX_TAG_LENGTH} characters`)
+];
+
+const metadataValidation = [
+  body('metadata')
+    .custom((value) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        throw new Error('Metadata must be an object of key/value pairs');
+      }
+      
+      const entries = Object.entries(value);
+      
+      if (entries.length === 0 || entries.length > MAX_METADATA_KEYS) {
+        throw new Error(`Metadata must have between 1 and ${MAX_METADATA_KEYS} entries`);
+      }
+      
+      for (const [key, entry] of entries) {
+        if (!METADATA_KEY_PATTERN.test(key)) {
+          throw new Error('Metadata keys may only contain letters, numbers, _ and - (at most 50)');
+        }
+        if (entry !== null && (typeof entry !== 'string' || entry.length > MAX_METADATA_VALUE_LENGTH)) {
+          throw new Error(`Metadata values must be text of at most ${MAX_METADATA_VALUE_LENGTH} characters, or null to remove`);
+        }
+      }
+      
+      return true;
+    })
+];
+
+const searchValidation = [
+  query('q')
+    .isString()
+    .trim()
+    .isLength({ min: 1, max: 200 })
+    .withMessage('Search query must be between 1 and 200 characters'),
+  query('type')
+    .optional()
+    .matches(/^[\w.+-]+(\/[\w.+-]+)?$/)
+    .withMessage('Type must be a MIME type such as application/pdf, or a group such as image'),
+  query('minSize')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Minimum size must be a whole number of bytes'),
+  query('maxSize')
+    .optional()
+    .isInt({ min: 0 })
+    .withMessage('Maximum size must be a whole number of bytes'),
+  query('from')
+    .optional()
+    .isISO8601()
+    .withMessage('From must be a valid date'),
+  query('to')
+    .optional()
+    .isISO8601()
+    .withMessage('To must be a valid date')
+];
+
+// Media and image elements cannot set headers, so these also accept ?access_token=
+router.get('/:id/stream', allowQueryToken, authenticate, requireScope('files:read'), streamFile);
+router.get('/:id/thumbnail', allowQueryToken, authenticate, requireScope('files:read'), getFileThumbnail);
+
 // All routes require authentication
 router.use(authenticate);
 
 // File routes
-router.post('/upload', upload.array('files', 10), uploadFiles);
-router.get('/', getMyFiles);
-router.get('/shared', getSharedWithMe);
-router.get('/stats', getFileStats);
-router.get('/:id', getFileById);
-router.get('/:id/download', downloadFile);
-router.delete('/:id', deleteFile);
+router.post('/upload', requireScope('files:write'), checkStorageQuota, upload.array('files', 10), uploadFiles);
+router.get('/', requireScope('files:read'), getMyFiles);
+router.get('/shared', requireScope('files:read'), getSharedWithMe);
+router.get('/search', requireScope('files:read'), searchValidation, searchFiles);
+router.get('/tags', requireScope('files:read'), getTags);
+router.get('/stats', requireScope('files:read'), getFileStats);
+router.get('/trash', requireScope('files:read'), getTrash);
+router.get('/:id', requireScope('files:read'), getFileById);
+router.get('/:id/download', requireScope('files:read'), downloadFile);
+router.post('/:id/move', requireScope('files:write'), moveFileValidation, moveFile);
+router.post('/:id/tags', requireScope('files:write'), addTagsValidation, addTags);
+router.delete('/:id/tags/:tag', requireScope('files:write'), removeTag);
+router.patch('/:id/metadata', requireScope('files:write'), metadataValidation, updateMetadata);
+router.post('/:id/versions', requireScope('files:write'), checkStorageQuota, upload.single('file'), uploadNewVersion);
+router.get('/:id/versions', requireScope('files:read'), getVersions);
+router.get('/:id/versions/:version/download', requireScope('files:read'), downloadVersion);
+router.post('/:id/versions/:version/restore', requireScope('files:write'), restoreVersion);
+router.delete('/:id', requireScope('files:write'), deleteFile);
+router.post('/:id/restore', requireScope('files:write'), restoreFile);
+router.delete('/:id/permanent', requireScope('files:write'), deleteFilePermanently);
 
 export default router;
 
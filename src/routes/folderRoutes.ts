@@ -0,0 +1,54 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import {
+  createFolder,
+  getFolders,
+  getFolder,
+  renameFolder,
+  moveFolder,
+  deleteFolder
+} from '../controllers';
+import { authenticate, requireScope } from '../middleware/auth';
+
+const router = Router();
+
+// Validation rules
+const folderNameValidation = body('name')
+  .trim()
+  .isLength({ min: 1, max: 255 })
+  .withMessage('Folder name must be between 1 and 255 characters')
+  .not()
+  .matches(/[/\\]/)
+  .withMessage('Folder name cannot contain slashes');
+
+const createFolderValidation = [
+  folderNameValidation,
+  body('parentId')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid parent folder ID'),
+  body('workspaceId')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid workspace ID')
+];
+
+const moveFolderValidation = [
+  body('parentId')
+    .optional({ values: 'null' })
+    .isMongoId()
+    .withMessage('Invalid parent folder ID')
+];
+
+// All routes require authentication
+router.use(authenticate);
+
+// Folder routes
+router.post('/', requireScope('files:write'), createFolderValidation, createFolder);
+router.get('/', requireScope('files:read'), getFolders);
+router.get('/:id', requireScope('files:read'), getFolder);
+router.patch('/:id', requireScope('files:write'), [folderNameValidation], renameFolder);
+router.post('/:id/move', requireScope('files:write'), moveFolderValidation, moveFolder);
+router.delete('/:id', requireScope('files:write'), deleteFolder);
+
+export default router;
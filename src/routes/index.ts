@@ -3,6 +3,13 @@ import authRoutes from './authRoutes';
 import fileRoutes from './fileRoutes';
 import shareRoutes from './shareRoutes';
 import auditRoutes from './auditRoutes';
+import tokenRoutes from './tokenRoutes';
+import adminRoutes from './adminRoutes';
+import workspaceRoutes from './workspaceRoutes';
+import contactRoutes from './contactRoutes';
+import folderRoutes from './folderRoutes';
+import uploadRoutes from './uploadRoutes';
+import avatarRoutes from './avatarRoutes';
 
 const router = Router();
 
@@ -10,6 +17,13 @@ router.use('/auth', authRoutes);
 router.use('/files', fileRoutes);
 router.use('/shares', shareRoutes);
 router.use('/audit', auditRoutes);
+router.use('/tokens', tokenRoutes);
+router.use('/admin', adminRoutes);
+router.use('/workspaces', workspaceRoutes);
+router.use('/contacts', contactRoutes);
+router.use('/folders', folderRoutes);
+router.use('/uploads', uploadRoutes);
+router.use('/avatars', avatarRoutes);
 
 export default router;
 
@@ -5,11 +5,14 @@ import {
   shareViaLink,
   accessViaLink,
   downloadViaLink,
+  streamViaLink,
+  thumbnailViaLink,
   getFileShares,
+  getWorkspaceShares,
   revokeShare,
   updateShareExpiration
 } from '../controllers';
-import { authenticate } from '../middleware/auth';
+import { authenticate, allowQueryToken, requireScope, requireVerifiedEmail } from '../middleware/auth';
 
 const router = Router();
 
@@ -43,17 +46,22 @@ const shareViaLinkValidation = [
     .withMessage('Permission must be view or download')
 ];
 
+// Media and image elements cannot set headers, so these also accept ?access_token=
+router.get('/link/:shareLink/stream', allowQueryToken, authenticate, requireScope('files:read'), streamViaLink);
+router.get('/link/:shareLink/thumbnail', allowQueryToken, authenticate, requireScope('files:read'), thumbnailViaLink);
+
 // All routes require authentication
 router.use(authenticate);
 
 // Share routes
-router.post('/user', shareWithUserValidation, shareWithUser);
-router.post('/link', shareViaLinkValidation, shareViaLink);
-router.get('/link/:shareLink', accessViaLink);
-router.get('/link/:shareLink/download', downloadViaLink);
-router.get('/file/:fileId', getFileShares);
-router.delete('/:shareId', revokeShare);
-router.patch('/:shareId/expiration', updateShareExpiration);
+router.post('/user', requireScope('shares:write'), requireVerifiedEmail, shareWithUserValidation, shareWithUser);
+router.post('/link', requireScope('shares:write'), requireVerifiedEmail, shareViaLinkValidation, shareViaLink);
+router.get('/link/:shareLink', requireScope('files:read'), accessViaLink);
+router.get('/link/:shareLink/download', requireScope('files:read'), downloadViaLink);
+router.get('/file/:fileId', requireScope('shares:read'), getFileShares);
+router.get('/workspace/:workspaceId', requireScope('shares:read'), getWorkspaceShares);
+router.delete('/:shareId', requireScope('shares:write'), revokeShare);
+router.patch('/:shareId/expiration', requireScope('shares:write'), updateShareExpiration);
 
 export default router;
 
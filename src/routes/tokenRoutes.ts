@@ -0,0 +1,48 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import {
+  getAccessTokens,
+  issueAccessToken,
+  updateAccessToken,
+  revokeAccessToken
+} from '../controllers';
+import { authenticate, requireSession } from '../middleware/auth';
+import { TOKEN_SCOPES } from '../types';
+
+const router = Router();
+
+// Validation rules
+const createTokenValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Token name must be between 1 and 100 characters'),
+  body('scopes')
+    .isArray({ min: 1 })
+    .withMessage('At least one scope is required'),
+  body('scopes.*')
+    .isIn(TOKEN_SCOPES)
+    .withMessage(`Scopes must be one of: ${TOKEN_SCOPES.join(', ')}`),
+  body('expiresAt')
+    .optional({ values: 'null' })
+    .isISO8601()
+    .withMessage('Expiration must be a valid date')
+];
+
+const updateTokenValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 1, max: 100 })
+    .withMessage('Token name must be between 1 and 100 characters')
+];
+
+// Token management requires an interactive login - a token cannot mint tokens
+router.use(authenticate, requireSession);
+
+// Token routes
+router.get('/', getAccessTokens);
+router.post('/', createTokenValidation, issueAccessToken);
+router.patch('/:id', updateTokenValidation, updateAccessToken);
+router.delete('/:id', revokeAccessToken);
+
+export default router;
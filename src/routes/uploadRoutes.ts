@@ -0,0 +1,24 @@
+import { Router } from 'express';
+import {
+  createUpload,
+  getUploadOffset,
+  uploadChunk,
+  getUpload,
+  terminateUpload
+} from '../controllers';
+import { authenticate, requireScope } from '../middleware/auth';
+import { requireTusResumable } from '../middleware/tus';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+// Resumable upload routes (tus 1.0)
+router.post('/', requireScope('files:write'), requireTusResumable, createUpload);
+router.head('/:id', requireScope('files:write'), requireTusResumable, getUploadOffset);
+router.patch('/:id', requireScope('files:write'), requireTusResumable, uploadChunk);
+router.delete('/:id', requireScope('files:write'), requireTusResumable, terminateUpload);
+router.get('/:id', requireScope('files:read'), getUpload);
+
+export default router;
@@ -0,0 +1,55 @@
+import { Router } from 'express';
+import { body } from 'express-validator';
+import {
+  createWorkspace,
+  getWorkspaces,
+  getWorkspace,
+  updateWorkspace,
+  deleteWorkspace,
+  addWorkspaceMember,
+  updateWorkspaceMember,
+  removeWorkspaceMember
+} from '../controllers';
+import { authenticate, requireScope, requireVerifiedEmail } from '../middleware/auth';
+
+const router = Router();
+
+// Validation rules
+const workspaceValidation = [
+  body('name')
+    .trim()
+    .isLength({ min: 2, max: 100 })
+    .withMessage('Workspace name must be between 2 and 100 characters')
+];
+
+const addMemberValidation = [
+  body('userId')
+    .notEmpty()
+    .withMessage('User ID is required')
+    .isMongoId()
+    .withMessage('Invalid user ID'),
+  body('role')
+    .isIn(['owner', 'editor', 'viewer'])
+    .withMessage('Role must be owner, editor or viewer')
+];
+
+const updateMemberValidation = [
+  body('role')
+    .isIn(['owner', 'editor', 'viewer'])
+    .withMessage('Role must be owner, editor or viewer')
+];
+
+// All routes require authentication
+router.use(authenticate);
+
+// Workspace routes
+router.post('/', requireScope('workspaces:write'), workspaceValidation, createWorkspace);
+router.get('/', requireScope('workspaces:read'), getWorkspaces);
+router.get('/:id', requireScope('workspaces:read'), getWorkspace);
+router.patch('/:id', requireScope('workspaces:write'), workspaceValidation, updateWorkspace);
+router.delete('/:id', requireScope('workspaces:write'), deleteWorkspace);
+router.post('/:id/members', requireScope('workspaces:write'), requireVerifiedEmail, addMemberValidation, addWorkspaceMember);
+router.patch('/:id/members/:userId', requireScope('workspaces:write'), updateMemberValidation, updateWorkspaceMember);
+router.delete('/:id/members/:userId', requireScope('workspaces:write'), removeWorkspaceMember);
+
+export default router;
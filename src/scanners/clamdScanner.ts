@@ -0,0 +1,103 @@
+import net from 'net';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { MalwareScanner, ScanResult } from '../types';
+
+// clamd refuses INSTREAM chunks larger than its StreamMaxLength; stay well below
+const CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Frame content for INSTREAM: length-prefixed chunks, then a zero-length chunk
+ */
+const createInstreamFramer = (): Transform => {
+  const frame = (chunk: Buffer): Buffer => {
+    const header = Buffer.alloc(4);
+    header.writeUInt32BE(chunk.length, 0);
+    return Buffer.concat([header, chunk]);
+  };
+  
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      for (let offset = 0; offset < chunk.length; offset += CHUNK_SIZE) {
+        this.push(frame(chunk.subarray(offset, offset + CHUNK_SIZE)));
+      }
+      callback();
+    },
+    flush(callback) {
+      callback(null, Buffer.alloc(4));
+    }
+  });
+};
+
+/**
+ * Interpret a reply such as "stream: OK" or "stream: Eicar-Signature FOUND"
+ */
+const parseReply = (reply: string): ScanResult => {
+  if (reply === 'stream: OK') {
+    return { infected: false };
+  }
+  
+  const found = /^stream: (.+) FOUND$/.exec(reply);
+  if (found) {
+    return { infected: true, signature: found[1] };
+  }
+  
+  throw new Error(`clamd could not scan the content: ${reply || 'no reply'}`);
+};
+
+/**
+ * Scan with a ClamAV daemon over its INSTREAM command, on a Unix socket
+ * (CLAMD_SOCKET) or TCP (CLAMD_HOST, CLAMD_PORT)
+ */
+export const createClamdScanner = (): MalwareScanner => {
+  const socketPath = process.env.CLAMD_SOCKET || undefined;
+  const host = process.env.CLAMD_HOST || '127.0.0.1';
+  const port = parseInt(process.env.CLAMD_PORT || '3310', 10);
+  const timeoutMs = parseInt(process.env.CLAMD_TIMEOUT_MS || '60000', 10);
+  
+  return {
+    name: 'clamd',
+    
+    scan(source) {
+      return new Promise<ScanResult>((resolve, reject) => {
+        const socket = socketPath
+          ? net.createConnection({ path: socketPath })
+          : net.createConnection({ host, port });
+        const reply: Buffer[] = [];
+        let failure: Error | undefined;
+        
+        socket.setTimeout(timeoutMs, () => {
+          socket.destroy(new Error(`clamd did not answer within ${timeoutMs}ms`));
+        });
+        socket.on('data', (data: Buffer) => reply.push(data));
+        socket.on('error', (error) => {
+          failure = failure || error;
+        });
+        
+        // clamd answers and closes the connection, possibly before all content
+        // was sent (size limit), so the reply wins over write errors
+        socket.on('close', () => {
+          source.destroy();
+          const text = Buffer.concat(reply).toString('utf8').replace(/\0/g, '').trim();
+          
+          if (!text && failure) {
+            reject(failure);
+            return;
+          }
+          
+          try {
+            resolve(parseReply(text));
+          } catch (error) {
+            reject(error);
+          }
+        });
+        
+        socket.write('zINSTREAM\0');
+        pipeline(source, createInstreamFramer(), socket).catch((error) => {
+          failure = failure || error;
+          socket.destroy();
+        });
+      });
+    }
+  };
+};
@@ -0,0 +1,22 @@
+import { MalwareScanner, MalwareScannerName } from '../types';
+import { createNoopScanner } from './noopScanner';
+import { createClamdScanner } from './clamdScanner';
+
+let scanner: MalwareScanner | null = null;
+
+/**
+ * Scanner for uploaded content (MALWARE_SCANNER: none or clamd, default none)
+ */
+export const getScanner = (): MalwareScanner => {
+  if (!scanner) {
+    const name = (process.env.MALWARE_SCANNER || 'none') as MalwareScannerName;
+    
+    if (name !== 'none' && name !== 'clamd') {
+      throw new Error(`Unknown MALWARE_SCANNER: ${name}`);
+    }
+    
+    scanner = name === 'clamd' ? createClamdScanner() : createNoopScanner();
+  }
+  
+  return scanner;
+};
@@ -0,0 +1,13 @@
+import { MalwareScanner } from '../types';
+
+/**
+ * Default when no scanner is configured: everything is reported clean
+ */
+export const createNoopScanner = (): MalwareScanner => ({
+  name: 'none',
+  
+  async scan(source) {
+    source.destroy();
+    return { infected: false };
+  }
+});
@@ -0,0 +1,68 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { File, FileBlob } from '../models';
+import { createBlobText, getExtractableMimeTypes } from '../services';
+
+/**
+ * Extract searchable text from documents uploaded before search existed.
+ * Safe to re-run; content that was already processed is skipped.
+ * Usage: npm run search:backfill
+ */
+async function extractSearchText(): Promise<void> {
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/nua-fileshare';
+  const seen = new Set<string>();
+  let extracted = 0;
+  let empty = 0;
+  
+  try {
+    await mongoose.connect(mongoURI);
+    
+    const files = File.find({
+      contentText: { $exists: false },
+      mimeType: { $in: getExtractableMimeTypes() },
+      scanStatus: 'clean'
+    })
+      .select('blob mimeType')
+      .lean()
+      .cursor();
+    
+    for await (const file of files) {
+      const blobId = file.blob?.toString();
+      
+      if (!blobId || seen.has(blobId)) {
+        continue;
+      }
+      seen.add(blobId);
+      
+      const blob = await FileBlob.findById(blobId);
+      if (!blob) continue;
+      
+      // Another file with the same content already has it
+      if (blob.contentText !== undefined) {
+        await File.updateMany({ blob: blob._id }, { contentText: blob.contentText });
+        continue;
+      }
+      
+      const contentText = await createBlobText(blob, file.mimeType);
+      
+      if (contentText) {
+        extracted++;
+      } else {
+        empty++;
+      }
+    }
+    
+    console.log(`✅ Extracted text from ${extracted} document(s)` +
+      (empty ? `, ${empty} had no readable text` : ''));
+  } catch (error) {
+    console.error('Search text backfill failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+extractSearchText();
@@ -0,0 +1,64 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { File, FileBlob } from '../models';
+import { canCreateThumbnails, createBlobThumbnails } from '../services';
+
+/**
+ * Generate thumbnails for images uploaded before thumbnails existed.
+ * Safe to re-run; content that already has thumbnails is skipped.
+ * Usage: npm run thumbnails:backfill
+ */
+async function generateThumbnails(): Promise<void> {
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/nua-fileshare';
+  const seen = new Set<string>();
+  let generated = 0;
+  let failed = 0;
+  
+  try {
+    await mongoose.connect(mongoURI);
+    
+    const files = File.find({ 'thumbnails.0': { $exists: false }, scanStatus: 'clean' })
+      .select('blob mimeType')
+      .lean()
+      .cursor();
+    
+    for await (const file of files) {
+      const blobId = file.blob?.toString();
+      
+      if (!blobId || seen.has(blobId) || !canCreateThumbnails(file.mimeType)) {
+        continue;
+      }
+      seen.add(blobId);
+      
+      const blob = await FileBlob.findById(blobId);
+      if (!blob) continue;
+      
+      // Another file with the same content already has them
+      if (blob.thumbnails.length > 0) {
+        await File.updateMany({ blob: blob._id }, { thumbnails: blob.thumbnails });
+        continue;
+      }
+      
+      const thumbnails = await createBlobThumbnails(blob);
+      
+      if (thumbnails.length > 0) {
+        generated++;
+      } else {
+        failed++;
+      }
+    }
+    
+    console.log(`✅ Generated thumbnails for ${generated} image(s)` +
+      (failed ? `, ${failed} could not be decoded` : ''));
+  } catch (error) {
+    console.error('Thumbnail backfill failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+generateThumbnails();
@@ -0,0 +1,104 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { File, FileBlob, FileVersion, User } from '../models';
+import { getStorage, isStorageDriverName } from '../storage';
+import { getAvatarStorageKeys, getThumbnailKey } from '../services';
+
+const readOption = (name: string): string | undefined => {
+  const index = process.argv.indexOf(name);
+  return index === -1 ? undefined : process.argv[index + 1];
+};
+
+/**
+ * Copy stored blobs and avatars from one storage driver to another and
+ * repoint the blobs, the files and versions using them, and the users.
+ * Safe to re-run: records are only switched once their content has been copied.
+ * Usage: npm run storage:migrate -- --from local --to s3 [--delete-source]
+ */
+async function migrateStorage(): Promise<void> {
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/nua-fileshare';
+  const from = readOption('--from');
+  const to = readOption('--to');
+  const deleteSource = process.argv.includes('--delete-source');
+  
+  if (!isStorageDriverName(from) || !isStorageDriverName(to) || from === to) {
+    console.error('Usage: npm run storage:migrate -- --from <local|s3> --to <local|s3> [--delete-source]');
+    process.exit(1);
+  }
+  
+  const source = getStorage(from);
+  const target = getStorage(to);
+  let copied = 0;
+  let missing = 0;
+  
+  try {
+    await mongoose.connect(mongoURI);
+    
+    for await (const blob of FileBlob.find({ storage: from }).lean().cursor()) {
+      if (!(await source.stat(blob.key))) {
+        console.warn(`⚠️  Missing content for blob ${blob._id} (${blob.key})`);
+        missing++;
+        continue;
+      }
+      
+      const keys = [
+        blob.key,
+        ...(blob.thumbnails || []).map((thumbnail) => getThumbnailKey(blob.hash, thumbnail.size, thumbnail.format))
+      ];
+      
+      for (const key of keys) {
+        await target.put(key, await source.getStream(key));
+      }
+      
+      await FileBlob.updateOne({ _id: blob._id }, { storage: to });
+      await File.updateMany({ blob: blob._id }, { storage: to });
+      await FileVersion.updateMany({ blob: blob._id }, { storage: to });
+      
+      if (deleteSource) {
+        for (const key of keys) {
+          await source.delete(key);
+        }
+      }
+      
+      copied++;
+    }
+    
+    for await (const user of User.find({ avatarKey: { $ne: null }, avatarStorage: from }).lean().cursor()) {
+      const keys = getAvatarStorageKeys(user.avatarKey as string);
+      
+      if ((await Promise.all(keys.map((key) => source.stat(key)))).includes(null)) {
+        console.warn(`⚠️  Missing avatar for user ${user._id} (${user.avatarKey})`);
+        missing++;
+        continue;
+      }
+      
+      for (const key of keys) {
+        await target.put(key, await source.getStream(key), { contentType: 'image/webp' });
+      }
+      
+      // Only switch if the user has not changed their avatar meanwhile
+      await User.updateOne({ _id: user._id, avatarKey: user.avatarKey }, { avatarStorage: to });
+      
+      if (deleteSource) {
+        for (const key of keys) {
+          await source.delete(key);
+        }
+      }
+      
+      copied++;
+    }
+    
+    console.log(`✅ Moved ${copied} object(s) from ${from} to ${to}` +
+      (missing ? `, ${missing} missing` : ''));
+  } catch (error) {
+    console.error('Storage migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+migrateStorage();
@@ -0,0 +1,46 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { User } from '../models';
+
+/**
+ * Grant (or revoke with --revoke) the admin role for a user by email.
+ * Usage: npm run admin:promote -- user@example.com [--revoke]
+ */
+async function promoteAdmin(): Promise<void> {
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/nua-fileshare';
+  const email = process.argv[2];
+  const role = process.argv.includes('--revoke') ? 'user' : 'admin';
+  
+  if (!email) {
+    console.error('Usage: npm run admin:promote -- <email> [--revoke]');
+    process.exit(1);
+  }
+  
+  try {
+    await mongoose.connect(mongoURI);
+    
+    const user = await User.findOneAndUpdate(
+      { email: email.toLowerCase() },
+      { role },
+      { new: true }
+    );
+    
+    if (!user) {
+      console.error(`❌ No user found with email ${email}`);
+      process.exitCode = 1;
+      return;
+    }
+    
+    console.log(`✅ ${user.email} is now ${user.role}`);
+  } catch (error) {
+    console.error('Promote admin failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+promoteAdmin();
@@ -0,0 +1,29 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { purgeScheduledAccounts } from '../services';
+
+/**
+ * Purge accounts whose deletion grace period has ended.
+ * Usage: npm run accounts:purge (e.g. from cron when the in-process job is disabled)
+ */
+async function purgeAccounts(): Promise<void> {
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/nua-fileshare';
+  
+  try {
+    await mongoose.connect(mongoURI);
+    
+    const purged = await purgeScheduledAccounts();
+    
+    console.log(`✅ Purged ${purged} account(s)`);
+  } catch (error) {
+    console.error('Account purge failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+purgeAccounts();
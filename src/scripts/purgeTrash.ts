@@ -0,0 +1,29 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { purgeExpiredTrash } from '../services';
+
+/**
+ * Permanently delete files that have been in the trash past the retention period.
+ * Usage: npm run trash:purge (e.g. from cron when the in-process job is disabled)
+ */
+async function purgeTrash(): Promise<void> {
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/nua-fileshare';
+  
+  try {
+    await mongoose.connect(mongoURI);
+    
+    const purged = await purgeExpiredTrash();
+    
+    console.log(`✅ Purged ${purged} file(s) from the trash`);
+  } catch (error) {
+    console.error('Trash purge failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+purgeTrash();
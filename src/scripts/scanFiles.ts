@@ -0,0 +1,47 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+import { FileBlob } from '../models';
+import { rescanBlob } from '../services';
+
+/**
+ * Scan content that has not been scanned yet (stored before scanning was
+ * enabled) or whose scan failed. Infected content is quarantined.
+ * Usage: npm run files:scan
+ */
+async function scanFiles(): Promise<void> {
+  const mongoURI = process.env.MONGODB_URI || 'mongodb://localhost:27017/nua-fileshare';
+  const counts = { clean: 0, infected: 0, error: 0 };
+  
+  try {
+    await mongoose.connect(mongoURI);
+    
+    const blobs = FileBlob.find({ scanStatus: { $in: ['pending', 'error'] } }).cursor();
+    
+    for await (const blob of blobs) {
+      try {
+        const { scanStatus } = await rescanBlob(blob);
+        counts[scanStatus as keyof typeof counts]++;
+      } catch (error) {
+        console.error(`Failed to scan blob ${blob.hash}:`, error);
+        counts.error++;
+      }
+    }
+    
+    console.log(`✅ Scanned ${counts.clean + counts.infected + counts.error} blob(s): ` +
+      `${counts.clean} clean, ${counts.infected} infected, ${counts.error} failed`);
+    
+    if (counts.error > 0) {
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Scan failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+  }
+}
+
+scanFiles();
@@ -0,0 +1,79 @@
+import { AccessToken } from '../models';
+import { IAccessToken, TokenScope } from '../types';
+import { generateSecureToken, hashToken } from '../utils/helpers';
+
+export const ACCESS_TOKEN_PREFIX = 'nua_pat_';
+
+interface CreateAccessTokenResult {
+  token: string;
+  accessToken: IAccessToken;
+}
+
+/**
+ * Check whether a bearer token looks like a personal access token
+ */
+export const isPersonalAccessToken = (token: string): boolean => {
+  return token.startsWith(ACCESS_TOKEN_PREFIX);
+};
+
+/**
+ * Create a personal access token. The plain token is only returned here.
+ */
+export const createAccessToken = async (
+  userId: string,
+  name: string,
+  scopes: TokenScope[],
+  expiresAt: Date | null
+): Promise<CreateAccessTokenResult> => {
+  const token = `${ACCESS_TOKEN_PREFIX}${generateSecureToken()}`;
+  
+  const accessToken = await AccessToken.create({
+    user: userId,
+    name,
+    tokenHash: hashToken(token),
+    tokenPrefix: token.slice(0, ACCESS_TOKEN_PREFIX.length + 6),
+    scopes: [...new Set(scopes)],
+    expiresAt
+  });
+  
+  return { token, accessToken };
+};
+
+/**
+ * Find an unexpired personal access token and record its use
+ */
+export const findActiveAccessToken = async (
+  token: string
+): Promise<IAccessToken | null> => {
+  const accessToken = await AccessToken.findOne({
+    tokenHash: hashToken(token),
+    $or: [
+      { expiresAt: null },
+      { expiresAt: { $gt: new Date() } }
+    ]
+  });
+  
+  if (!accessToken) {
+    return null;
+  }
+  
+  // Record usage at most once a minute
+  if (!accessToken.lastUsedAt || Date.now() - accessToken.lastUsedAt.getTime() > 60 * 1000) {
+    try {
+      await AccessToken.updateOne({ _id: accessToken._id }, { lastUsedAt: new Date() });
+    } catch (error) {
+      console.error('Access token touch error:', error);
+    }
+  }
+  
+  return accessToken;
+};
+
+/**
+ * Delete every personal access token of a user (password resets)
+ */
+export const revokeAllAccessTokens = async (userId: string): Promise<number> => {
+  const result = await AccessToken.deleteMany({ user: userId });
+  
+  return result.deletedCount;
+};
@@ -0,0 +1,275 @@
+import { PassThrough } from 'stream';
+import { pipeline } from 'stream/promises';
+import archiver, { Archiver } from 'archiver';
+import {
+  AccessToken,
+  AuditLog,
+  Contact,
+  File,
+  Folder,
+  Session,
+  Share,
+  User,
+  UserToken
+} from '../models';
+import { IUser } from '../types';
+import { sanitizeFilename } from '../utils/helpers';
+import { getStorage } from '../storage';
+import { getActionDisplayName, logAudit } from './auditService';
+import { clearLoginFailures } from './loginThrottleService';
+import { deleteAvatarFiles } from './avatarService';
+import { removeUserFromWorkspaces } from './workspaceService';
+import { removeFiles } from './fileService';
+
+/**
+ * Days between a deletion request and the purge
+ */
+export const getAccountDeletionGraceDays = (): number => {
+  return parseInt(process.env.ACCOUNT_DELETION_GRACE_DAYS || '14', 10);
+};
+
+/**
+ * Schedule the account for deletion after the grace period
+ */
+export const scheduleUserDeletion = async (user: IUser): Promise<Date> => {
+  const scheduledFor = new Date(Date.now() + getAccountDeletionGraceDays() * 24 * 60 * 60 * 1000);
+  
+  await User.updateOne(
+    { _id: user._id },
+    { deletionRequestedAt: new Date(), deletionScheduledFor: scheduledFor }
+  );
+  
+  return scheduledFor;
+};
+
+/**
+ * Cancel a pending deletion. Returns false if none was scheduled.
+ */
+export const cancelUserDeletion = async (user: IUser): Promise<boolean> => {
+  const result = await User.updateOne(
+    { _id: user._id, deletionScheduledFor: { $ne: null } },
+    { deletionRequestedAt: null, deletionScheduledFor: null }
+  );
+  
+  return result.modifiedCount > 0;
+};
+
+/**
+ * Permanently remove a user: personal files on disk, file and share records,
+ * workspace memberships, sessions and tokens. Audit entries are kept but anonymized:
+ * the user, client details and action details are removed.
+ * Files uploaded to a workspace stay with the workspace.
+ */
+export const purgeUserAccount = async (userId: string): Promise<void> => {
+  const user = await User.findById(userId);
+  
+  if (!user) {
+    return;
+  }
+  
+  const files = await File.find({ owner: user._id, workspace: null });
+  await removeFiles(files);
+  await Folder.deleteMany({ owner: user._id, workspace: null });
+  
+  // Revoke shares the user made and shares made to the user
+  await Share.deleteMany({
+    $or: [
+      { owner: user._id },
+      { sharedWith: user._id }
+    ]
+  });
+  
+  await removeUserFromWorkspaces(user._id.toString());
+  
+  // Failed and locked-out logins may carry only the email, so match on it too.
+  // Details hold filenames, emails and recipients, so they are dropped as well.
+  await AuditLog.updateMany(
+    {
+      $or: [
+        { user: user._id },
+        { 'details.email': user.email }
+      ]
+    },
+    { $unset: { user: '', ipAddress: '', userAgent: '', details: '' } }
+  );
+  
+  await Promise.all([
+    Session.deleteMany({ user: user._id }),
+    UserToken.deleteMany({ user: user._id }),
+    AccessToken.deleteMany({ user: user._id }),
+    Contact.deleteMany({ $or: [{ owner: user._id }, { contact: user._id }] }),
+    clearLoginFailures(user.email)
+  ]);
+  
+  if (user.avatarKey) {
+    await deleteAvatarFiles(user.avatarKey, user.avatarStorage);
+  }
+  
+  await user.deleteOne();
+  
+  await logAudit(null, 'account_purge', {
+    details: { fileCount: files.length }
+  });
+};
+
+/**
+ * Purge every account whose grace period has ended
+ */
+export const purgeScheduledAccounts = async (): Promise<number> => {
+  const users = await User.find({ deletionScheduledFor: { $ne: null, $lte: new Date() } })
+    .select('_id');
+  
+  let purged = 0;
+  
+  for (const user of users) {
+    try {
+      await purgeUserAccount(user._id.toString());
+      purged++;
+    } catch (error) {
+      console.error(`Account purge failed for ${user._id}:`, error);
+    }
+  }
+  
+  return purged;
+};
+
+/**
+ * Run the purge periodically in this process (ACCOUNT_PURGE_INTERVAL_MINUTES, 0 disables)
+ */
+export const startAccountPurgeJob = (): void => {
+  const intervalMinutes = parseInt(process.env.ACCOUNT_PURGE_INTERVAL_MINUTES || '60', 10);
+  
+  if (!intervalMinutes) {
+    return;
+  }
+  
+  const run = async () => {
+    try {
+      const purged = await purgeScheduledAccounts();
+      if (purged > 0) {
+        console.log(`🗑️  Purged ${purged} deleted account(s)`);
+      }
+    } catch (error) {
+      console.error('Account purge job error:', error);
+    }
+  };
+  
+  setInterval(run, intervalMinutes * 60 * 1000).unref();
+  run();
+};
+
+/**
+ * Build a zip of the user's files plus a manifest.json describing
+ * their profile, files, shares and activity. The caller pipes and finalizes it,
+ * and must listen for 'error' straight away: a failed file read is reported there.
+ */
+export const createTakeoutArchive = async (user: IUser): Promise<Archiver> => {
+  const [files, ownedShares, receivedShares, activity] = await Promise.all([
+    File.find({ owner: user._id }).sort({ createdAt: 1 }).lean(),
+    Share.find({ owner: user._id })
+      .populate('sharedWith', 'name email avatarUrl')
+      .sort({ createdAt: 1 })
+      .lean(),
+    Share.find({ sharedWith: user._id })
+      .populate('owner', 'name email avatarUrl')
+      .populate('file', 'originalName')
+      .sort({ createdAt: 1 })
+      .lean(),
+    AuditLog.find({ user: user._id }).sort({ createdAt: 1 }).lean()
+  ]);
+  
+  const archive = archiver('zip', { zlib: { level: 6 } });
+  
+  // A failed read fails the whole archive; otherwise the response would hang
+  let failed = false;
+  const fail = (error: Error) => {
+    if (failed) {
+      return;
+    }
+    failed = true;
+    archive.emit('error', error);
+    archive.abort();
+  };
+  
+  const manifestFiles = [];
+  const entries: { file: typeof files[number]; entry: PassThrough }[] = [];
+  
+  for (const file of files) {
+    const archivePath = `files/${file._id}-${sanitizeFilename(file.originalName)}`;
+    // Content that is not known to be clean stays out of the export
+    const included = file.scanStatus === 'clean'
+      && (await getStorage(file.storage).stat(file.filename)) !== null;
+    
+    if (included) {
+      const entry = new PassThrough();
+      entry.on('error', fail);
+      archive.append(entry, { name: archivePath });
+      entries.push({ file, entry });
+    }
+    
+    manifestFiles.push({
+      id: file._id,
+      originalName: file.originalName,
+      mimeType: file.mimeType,
+      size: file.size,
+      scanStatus: file.scanStatus,
+      tags: file.tags,
+      metadata: file.metadata,
+      createdAt: file.createdAt,
+      archivePath: included ? archivePath : null
+    });
+  }
+  
+  // Open one storage stream at a time; the zip reads entries in order
+  (async () => {
+    for (const { file, entry } of entries) {
+      await pipeline(await getStorage(file.storage).getStream(file.filename), entry);
+    }
+  })().catch(fail);
+  
+  const manifest = {
+    exportedAt: new Date(),
+    profile: {
+      id: user._id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      emailVerified: user.emailVerified,
+      createdAt: user.createdAt
+    },
+    files: manifestFiles,
+    shares: {
+      owned: ownedShares.map((share) => ({
+        id: share._id,
+        file: share.file,
+        shareType: share.shareType,
+        sharedWith: share.sharedWith,
+        permission: share.permission,
+        expiresAt: share.expiresAt,
+        isActive: share.isActive,
+        createdAt: share.createdAt
+      })),
+      received: receivedShares.map((share) => ({
+        id: share._id,
+        file: share.file,
+        owner: share.owner,
+        permission: share.permission,
+        expiresAt: share.expiresAt,
+        isActive: share.isActive,
+        createdAt: share.createdAt
+      }))
+    },
+    activity: activity.map((log) => ({
+      action: log.action,
+      description: getActionDisplayName(log.action),
+      file: log.file,
+      details: log.details,
+      ipAddress: log.ipAddress,
+      createdAt: log.createdAt
+    }))
+  };
+  
+  archive.append(JSON.stringify(manifest, null, 2), { name: 'manifest.json' });
+  
+  return archive;
+};
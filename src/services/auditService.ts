@@ -4,6 +4,7 @@ import { AuditAction } from '../types';
 interface AuditOptions {
   fileId?: string;
   shareId?: string;
+  workspaceId?: string;
   details?: Record<string, unknown>;
   ipAddress?: string;
   userAgent?: string;
@@ -13,16 +14,17 @@ interface AuditOptions {
  * Log an audit action
  */
 export const logAudit = async (
-  userId: string,
+  userId: string | null,
   action: AuditAction,
   options: AuditOptions = {}
 ): Promise<void> => {
   try {
     await AuditLog.create({
-      user: userId,
+      user: userId || undefined,
       action,
       file: options.fileId,
       share: options.shareId,
+      workspace: options.workspaceId,
       details: options.details,
       ipAddress: options.ipAddress,
       userAgent: options.userAgent
@@ -33,6 +35,32 @@ export const logAudit = async (
   }
 };
 
+/**
+ * Log a file action unless the same user already logged it for the file
+ * within the window. Used for streaming, where players issue many requests.
+ */
+export const logAuditOnce = async (
+  userId: string,
+  action: AuditAction,
+  options: AuditOptions & { fileId: string },
+  windowMinutes: number = parseInt(process.env.STREAM_AUDIT_WINDOW_MINUTES || '30', 10)
+): Promise<void> => {
+  try {
+    const recent = await AuditLog.exists({
+      file: options.fileId,
+      user: userId,
+      action,
+      createdAt: { $gt: new Date(Date.now() - windowMinutes * 60 * 1000) }
+    });
+    
+    if (!recent) {
+      await logAudit(userId, action, options);
+    }
+  } catch (error) {
+    console.error('Audit log error:', error);
+  }
+};
+
 /**
  * Get audit logs for a file
  */
@@ -45,7 +73,7 @@ export const getFileAuditLogs = async (
   
   const [logs, total] = await Promise.all([
     AuditLog.find({ file: fileId })
-      .populate('user', 'name email')
+      .populate('user', 'name email avatarUrl')
       .sort({ createdAt: -1 })
       .skip(skip)
       .limit(limit)
@@ -62,6 +90,36 @@ export const getFileAuditLogs = async (
   };
 };
 
+/**
+ * Get audit logs for a workspace
+ */
+export const getWorkspaceAuditLogs = async (
+  workspaceId: string,
+  page: number = 1,
+  limit: number = 20
+) => {
+  const skip = (page - 1) * limit;
+  
+  const [logs, total] = await Promise.all([
+    AuditLog.find({ workspace: workspaceId })
+      .populate('user', 'name email avatarUrl')
+      .populate('file', 'originalName')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean(),
+    AuditLog.countDocuments({ workspace: workspaceId })
+  ]);
+  
+  return {
+    logs,
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit)
+  };
+};
+
 /**
  * Get audit logs for a user
  */
@@ -91,19 +149,96 @@ export const getUserAuditLogs = async (
   };
 };
 
+/**
+ * Get audit logs across all users (admin)
+ */
+export const getAllAuditLogs = async (
+  filter: {
+    userId?: string;
+    fileId?: string;
+    action?: AuditAction;
+    from?: Date;
+    to?: Date;
+  },
+  page: number = 1,
+  limit: number = 20
+) => {
+  const skip = (page - 1) * limit;
+  
+  const query: Record<string, unknown> = {};
+  if (filter.userId) query.user = filter.userId;
+  if (filter.fileId) query.file = filter.fileId;
+  if (filter.action) query.action = filter.action;
+  if (filter.from || filter.to) {
+    query.createdAt = {
+      ...(filter.from && { $gte: filter.from }),
+      ...(filter.to && { $lte: filter.to })
+    };
+  }
+  
+  const [logs, total] = await Promise.all([
+    AuditLog.find(query)
+      .populate('user', 'name email avatarUrl')
+      .populate('file', 'originalName')
+      .sort({ createdAt: -1 })
+      .skip(skip)
+      .limit(limit)
+      .lean(),
+    AuditLog.countDocuments(query)
+  ]);
+  
+  return {
+    logs,
+    total,
+    page,
+    limit,
+    totalPages: Math.ceil(total / limit)
+  };
+};
+
 /**
  * Get action display name
  */
 export const getActionDisplayName = (action: AuditAction): string => {
   const actionNames: Record<AuditAction, string> = {
     file_upload: 'Uploaded file',
+    file_upload_rejected: 'Rejected upload with mismatched content',
+    file_quarantined: 'Quarantined infected file',
     file_download: 'Downloaded file',
     file_delete: 'Deleted file',
     file_share_user: 'Shared with user',
     file_share_link: 'Created share link',
     share_revoke: 'Revoked share',
     share_access: 'Accessed shared file',
-    file_view: 'Viewed file'
+    file_view: 'Viewed file',
+    two_factor_enroll: 'Enabled two-factor authentication',
+    two_factor_disable: 'Disabled two-factor authentication',
+    two_factor_challenge_failed: 'Failed two-factor challenge',
+    login_failed: 'Failed login attempt',
+    login_locked: 'Login blocked by lockout',
+    admin_user_disable: 'Disabled user account',
+    admin_user_enable: 'Re-enabled user account',
+    admin_role_change: 'Changed user role',
+    admin_password_reset: 'Forced password reset',
+    admin_quota_change: 'Changed storage quota',
+    account_deletion_request: 'Requested account deletion',
+    account_deletion_cancel: 'Cancelled account deletion',
+    account_purge: 'Purged deleted account',
+    account_export: 'Exported account data',
+    workspace_create: 'Created workspace',
+    workspace_delete: 'Deleted workspace',
+    workspace_member_add: 'Added workspace member',
+    workspace_member_update: 'Changed workspace member role',
+    workspace_member_remove: 'Removed workspace member',
+    folder_create: 'Created folder',
+    folder_move: 'Moved folder',
+    folder_delete: 'Deleted folder',
+    file_move: 'Moved file',
+    file_metadata_update: 'Updated file tags or metadata',
+    file_version_upload: 'Uploaded new version',
+    file_version_restore: 'Restored version',
+    file_restore: 'Restored file from trash',
+    file_purge: 'Permanently deleted file'
   };
   
   return actionNames[action] || action;
@@ -0,0 +1,154 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { v4 as uuidv4 } from 'uuid';
+import { User } from '../models';
+import { IUser, StorageDriverName } from '../types';
+import { getBaseUrl } from '../utils/helpers';
+import { getStorage } from '../storage';
+import { createAvatarImages } from './compressionService';
+
+export const AVATAR_SIZE_SMALL = 64;
+export const AVATAR_SIZE_LARGE = 256;
+
+const AVATAR_SIZES = [AVATAR_SIZE_SMALL, AVATAR_SIZE_LARGE];
+const AVATAR_DIR = 'avatars';
+
+// <user id>-<uuid>-<size>.webp
+const AVATAR_NAME_PATTERN = /^([0-9a-f]{24})-[0-9a-f-]{36}-(\d+)\.webp$/;
+
+interface AvatarImageLocation {
+  storage: StorageDriverName;
+  key: string;
+}
+
+/**
+ * Public file name of one size of an avatar
+ */
+const getAvatarName = (key: string, size: number): string => {
+  return `${key}-${size}.webp`;
+};
+
+/**
+ * Storage key of one size of an avatar
+ */
+export const getAvatarStorageKey = (key: string, size: number): string => {
+  return `${AVATAR_DIR}/${getAvatarName(key, size)}`;
+};
+
+/**
+ * Storage keys of every size of an avatar
+ */
+export const getAvatarStorageKeys = (key: string): string[] => {
+  return AVATAR_SIZES.map((size) => getAvatarStorageKey(key, size));
+};
+
+/**
+ * Public URL of one size of an avatar
+ */
+const getAvatarUrl = (key: string, size: number): string => {
+  return `${getBaseUrl()}/api/avatars/${getAvatarName(key, size)}`;
+};
+
+/**
+ * Remove every stored size of an avatar
+ */
+export const deleteAvatarFiles = async (
+  key: string,
+  storageName: StorageDriverName
+): Promise<void> => {
+  const storage = getStorage(storageName);
+  
+  for (const storageKey of getAvatarStorageKeys(key)) {
+    try {
+      await storage.delete(storageKey);
+    } catch (error) {
+      console.error(`Failed to remove avatar ${storageKey}:`, error);
+    }
+  }
+};
+
+/**
+ * Turn an uploaded image into the user's avatar. The upload itself is discarded.
+ */
+export const setUserAvatar = async (user: IUser, uploadedPath: string): Promise<IUser | null> => {
+  // New key per upload so cached URLs change with the image
+  const key = `${user._id}-${uuidv4()}`;
+  const storage = getStorage();
+  
+  try {
+    const images = await createAvatarImages(uploadedPath, AVATAR_SIZES);
+    
+    for (const image of images) {
+      await storage.put(getAvatarStorageKey(key, image.size), Readable.from(image.data), {
+        contentType: 'image/webp'
+      });
+    }
+  } catch (error) {
+    await deleteAvatarFiles(key, storage.name);
+    throw error;
+  } finally {
+    if (fs.existsSync(uploadedPath)) {
+      fs.unlinkSync(uploadedPath);
+    }
+  }
+  
+  const previousKey = user.avatarKey;
+  const previousStorage = user.avatarStorage;
+  
+  const updated = await User.findByIdAndUpdate(
+    user._id,
+    {
+      avatarKey: key,
+      avatarStorage: storage.name,
+      avatarUrl: getAvatarUrl(key, AVATAR_SIZE_LARGE),
+      avatarSmallUrl: getAvatarUrl(key, AVATAR_SIZE_SMALL)
+    },
+    { new: true }
+  );
+  
+  if (previousKey) {
+    await deleteAvatarFiles(previousKey, previousStorage);
+  }
+  
+  return updated;
+};
+
+/**
+ * Remove the user's avatar. Returns false if none was set.
+ */
+export const removeUserAvatar = async (user: IUser): Promise<boolean> => {
+  if (!user.avatarKey) {
+    return false;
+  }
+  
+  await User.updateOne(
+    { _id: user._id },
+    { avatarKey: null, avatarUrl: null, avatarSmallUrl: null }
+  );
+  await deleteAvatarFiles(user.avatarKey, user.avatarStorage);
+  
+  return true;
+};
+
+/**
+ * Locate the image behind a public avatar file name. Only current avatars are found.
+ */
+export const findAvatarImage = async (name: string): Promise<AvatarImageLocation | null> => {
+  const match = AVATAR_NAME_PATTERN.exec(name);
+  const size = match ? Number(match[2]) : 0;
+  
+  if (!match || !AVATAR_SIZES.includes(size)) {
+    return null;
+  }
+  
+  const user = await User.findById(match[1]).select('avatarKey avatarStorage');
+  
+  if (!user?.avatarKey || name !== getAvatarName(user.avatarKey, size)) {
+    return null;
+  }
+  
+  return {
+    storage: user.avatarStorage,
+    key: getAvatarStorageKey(user.avatarKey, size)
+  };
+};
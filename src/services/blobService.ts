@@ -0,0 +1,154 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import { pipeline } from 'stream/promises';
+import { Types } from 'mongoose';
+import { FileBlob } from '../models';
+import { IFileBlob, IThumbnail, ScanStatus, StorageDriverName } from '../types';
+import { getStorage } from '../storage';
+import { canCreateThumbnails, deleteThumbnails, storeThumbnails } from './thumbnailService';
+import { getBlobKey, scanLocalFile } from './scanService';
+import { extractText } from './textExtractionService';
+
+export interface BlobFields {
+  blob: Types.ObjectId;
+  hash: string;
+  filename: string;
+  storage: StorageDriverName;
+  size: number;
+  thumbnails: IThumbnail[];
+  scanStatus: ScanStatus;
+  contentText?: string;
+}
+
+/**
+ * SHA-256 of a local file, hex encoded
+ */
+export const hashFile = async (filePath: string): Promise<string> => {
+  const hash = crypto.createHash('sha256');
+  await pipeline(fs.createReadStream(filePath), hash);
+  return hash.digest('hex');
+};
+
+/**
+ * Fields copied onto files and versions that point at a blob
+ */
+export const getBlobFields = (blob: IFileBlob): BlobFields => ({
+  blob: blob._id,
+  hash: blob.hash,
+  filename: blob.key,
+  storage: blob.storage,
+  size: blob.size,
+  thumbnails: blob.thumbnails,
+  scanStatus: blob.scanStatus,
+  contentText: blob.contentText
+});
+
+/**
+ * Take one more reference to an existing blob
+ */
+export const acquireBlob = async (blobId: Types.ObjectId): Promise<IFileBlob | null> => {
+  return FileBlob.findByIdAndUpdate(blobId, { $inc: { refCount: 1 } }, { new: true });
+};
+
+/**
+ * Store a local file as a content-addressed blob and take a reference to it.
+ * Content that is already stored is not written again; the local file is
+ * consumed either way. New content is scanned for malware first; content
+ * that is not clean is quarantined. Clean images get thumbnails and clean
+ * documents have their text extracted for search.
+ */
+export const storeBlob = async (filePath: string, mimeType: string): Promise<IFileBlob> => {
+  const hash = await hashFile(filePath);
+  
+  const existing = await FileBlob.findOneAndUpdate(
+    { hash },
+    { $inc: { refCount: 1 } },
+    { new: true }
+  );
+  
+  if (existing) {
+    // Content first stored under a type without thumbnails
+    if (
+      existing.scanStatus === 'clean'
+      && existing.thumbnails.length === 0
+      && canCreateThumbnails(mimeType)
+    ) {
+      existing.thumbnails = await storeThumbnails(hash, filePath, getStorage(existing.storage));
+      await existing.save();
+    }
+    
+    await fs.promises.rm(filePath, { force: true });
+    return existing;
+  }
+  
+  const { size } = await fs.promises.stat(filePath);
+  const storage = getStorage();
+  const verdict = await scanLocalFile(filePath);
+  const key = getBlobKey(hash, verdict.scanStatus);
+  
+  const thumbnails = verdict.scanStatus === 'clean' && canCreateThumbnails(mimeType)
+    ? await storeThumbnails(hash, filePath, storage)
+    : [];
+  const contentText = verdict.scanStatus === 'clean'
+    ? await extractText(filePath, mimeType) ?? undefined
+    : undefined;
+  
+  await storage.put(key, filePath, { contentType: mimeType });
+  
+  try {
+    return await FileBlob.create({
+      hash,
+      key,
+      storage: storage.name,
+      size,
+      refCount: 1,
+      thumbnails,
+      contentText,
+      ...verdict
+    });
+  } catch (error) {
+    // The same content was stored concurrently under the same key
+    if ((error as { code?: number }).code === 11000) {
+      const blob = await FileBlob.findOneAndUpdate(
+        { hash },
+        { $inc: { refCount: 1 } },
+        { new: true }
+      );
+      if (blob) return blob;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Drop one reference per entry. Blobs are deleted from storage when
+ * their last reference goes.
+ */
+export const releaseBlobs = async (blobIds: Types.ObjectId[]): Promise<void> => {
+  for (const blobId of blobIds) {
+    const blob = await FileBlob.findByIdAndUpdate(
+      blobId,
+      { $inc: { refCount: -1 } },
+      { new: true }
+    );
+    
+    if (!blob || blob.refCount > 0) {
+      continue;
+    }
+    
+    // Someone may have taken a new reference in the meantime
+    const result = await FileBlob.deleteOne({ _id: blob._id, refCount: { $lte: 0 } });
+    
+    if (result.deletedCount === 0) {
+      continue;
+    }
+    
+    try {
+      await getStorage(blob.storage).delete(blob.key);
+    } catch (error) {
+      console.error(`Failed to remove blob ${blob.key}:`, error);
+    }
+    
+    await deleteThumbnails(blob);
+  }
+};
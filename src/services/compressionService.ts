@@ -2,8 +2,9 @@ import sharp from 'sharp';
 import fs from 'fs';
 import path from 'path';
 import archiver from 'archiver';
+import { ThumbnailFormat } from '../types';
 
-interface CompressionResult {
+export interface CompressionResult {
   success: boolean;
   originalSize: number;
   compressedSize: number;
@@ -11,6 +12,19 @@ interface CompressionResult {
   newPath?: string;
 }
 
+export interface AvatarImage {
+  size: number;
+  data: Buffer;
+}
+
+export interface ThumbnailImage {
+  size: number;
+  format: ThumbnailFormat;
+  width: number;
+  height: number;
+  data: Buffer;
+}
+
 /**
  * Compress image files using sharp
  */
@@ -166,6 +180,54 @@ export const createZipArchive = async (
   });
 };
 
+/**
+ * Crop an image to a square and encode a WebP for each size
+ */
+export const createAvatarImages = async (
+  sourcePath: string,
+  sizes: number[]
+): Promise<AvatarImage[]> => {
+  const images: AvatarImage[] = [];
+  
+  for (const size of sizes) {
+    const data = await sharp(sourcePath)
+      .rotate() // Respect EXIF orientation
+      .resize(size, size, { fit: 'cover', position: 'attention' })
+      .webp({ quality: 85 })
+      .toBuffer();
+    
+    images.push({ size, data });
+  }
+  
+  return images;
+};
+
+/**
+ * Scale an image to fit inside each size (never enlarging) in each format.
+ * The source is decoded once and shared by every output.
+ */
+export const createThumbnailImages = async (
+  source: string | Buffer,
+  sizes: number[],
+  formats: ThumbnailFormat[]
+): Promise<ThumbnailImage[]> => {
+  const image = sharp(source, { failOn: 'none' }).rotate(); // Respect EXIF orientation
+  
+  const jobs = sizes.flatMap((size) => formats.map(async (format) => {
+    const resized = image.clone().resize(size, size, { fit: 'inside', withoutEnlargement: true });
+    const output = format === 'webp'
+      ? resized.webp({ quality: 80 })
+      // JPEG has no transparency
+      : resized.flatten({ background: '#ffffff' }).jpeg({ quality: 80, mozjpeg: true });
+    
+    const { data, info } = await output.toBuffer({ resolveWithObject: true });
+    
+    return { size, format, width: info.width, height: info.height, data };
+  }));
+  
+  return Promise.all(jobs);
+};
+
 /**
  * Compress file based on type
  */
@@ -0,0 +1,110 @@
+import { Types } from 'mongoose';
+import { Contact, User } from '../models';
+import { escapeRegex } from '../utils/helpers';
+
+const SEARCH_LIMIT = 10;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Record that two users shared a file, adding each to the other's contacts
+ */
+export const recordShareContact = async (
+  userId: string,
+  recipientId: string
+): Promise<void> => {
+  const owner = new Types.ObjectId(userId);
+  const recipient = new Types.ObjectId(recipientId);
+  const now = new Date();
+  
+  await Contact.bulkWrite([
+    {
+      updateOne: {
+        filter: { owner, contact: recipient },
+        update: { $set: { lastInteractionAt: now }, $inc: { shareCount: 1 } },
+        upsert: true
+      }
+    },
+    {
+      updateOne: {
+        filter: { owner: recipient, contact: owner },
+        update: { $set: { lastInteractionAt: now } },
+        upsert: true
+      }
+    }
+  ]);
+};
+
+/**
+ * Remove two users from each other's contacts. Returns false if neither had the other.
+ */
+export const removeContactPair = async (
+  userId: string,
+  contactId: string
+): Promise<boolean> => {
+  const result = await Contact.deleteMany({
+    $or: [
+      { owner: userId, contact: contactId },
+      { owner: contactId, contact: userId }
+    ]
+  });
+  
+  return result.deletedCount > 0;
+};
+
+/**
+ * Get the IDs of a user's contacts
+ */
+export const getContactIds = async (userId: string): Promise<Types.ObjectId[]> => {
+  const contacts = await Contact.find({ owner: userId }).select('contact').lean();
+  return contacts.map((c) => c.contact);
+};
+
+/**
+ * Search the user directory, honoring each user's discoverability:
+ * - everyone: matched by email or name prefix
+ * - contacts: only matched for users who have them as a contact
+ * - email: only matched by their exact email address
+ * Contacts are listed first. Disabled accounts are never listed.
+ */
+export const searchDirectory = async (userId: string, query: string) => {
+  const term = query.trim().toLowerCase();
+  const prefix = new RegExp(`^${escapeRegex(term)}`);
+  const prefixMatch = { $or: [{ email: prefix }, { searchName: prefix }] };
+  const contactIds = await getContactIds(userId);
+  
+  const contacts = await User.find({
+    _id: { $in: contactIds },
+    emailVerified: true,
+    isDisabled: { $ne: true },
+    ...prefixMatch
+  })
+    .select('_id email name avatarUrl')
+    .limit(SEARCH_LIMIT)
+    .lean();
+  
+  const others: Record<string, unknown>[] = [
+    { discoverability: 'everyone', ...prefixMatch }
+  ];
+  
+  if (EMAIL_PATTERN.test(term)) {
+    others.push({ email: term, discoverability: 'email' });
+  }
+  
+  const remaining = SEARCH_LIMIT - contacts.length;
+  const strangers = remaining > 0
+    ? await User.find({
+      _id: { $nin: [...contactIds, new Types.ObjectId(userId)] },
+      emailVerified: true,
+      isDisabled: { $ne: true },
+      $or: others
+    })
+      .select('_id email name avatarUrl')
+      .limit(remaining)
+      .lean()
+    : [];
+  
+  return [
+    ...contacts.map((user) => ({ ...user, isContact: true })),
+    ...strangers.map((user) => ({ ...user, isContact: false }))
+  ];
+};
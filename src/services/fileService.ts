@@ -0,0 +1,26 @@
+import { File, Share } from '../models';
+import { IFile } from '../types';
+import { releaseBlobs } from './blobService';
+import { releaseStorageCharges } from './quotaService';
+import { removeFileVersions } from './versionService';
+
+/**
+ * Delete files together with their versions, shares and records.
+ * Content is only removed from storage once nothing else references it.
+ */
+export const removeFiles = async (files: IFile[]): Promise<number> => {
+  await releaseBlobs(files.map((file) => file.blob));
+  // The current content is charged to whoever uploaded it
+  await releaseStorageCharges(files.map((file) => ({
+    userId: file.modifiedBy || file.owner,
+    bytes: file.size
+  })));
+  
+  const fileIds = files.map((file) => file._id);
+  
+  await removeFileVersions(fileIds);
+  await Share.deleteMany({ file: { $in: fileIds } });
+  await File.deleteMany({ _id: { $in: fileIds } });
+  
+  return files.length;
+};
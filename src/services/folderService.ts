@@ -0,0 +1,86 @@
+import { Types } from 'mongoose';
+import { File, Folder } from '../models';
+import { IFolder } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { trashFiles } from './trashService';
+
+export interface FolderPathEntry {
+  id: Types.ObjectId;
+  name: string;
+}
+
+/**
+ * Whether two folders (or a folder and a file) live in the same space
+ */
+export const isSameSpace = (
+  a: { workspace?: Types.ObjectId | null },
+  b: { workspace?: Types.ObjectId | null }
+): boolean => {
+  return (a.workspace?.toString() || null) === (b.workspace?.toString() || null);
+};
+
+/**
+ * Resolve the breadcrumb path from the root to the folder (inclusive)
+ */
+export const getFolderPath = async (folder: IFolder): Promise<FolderPathEntry[]> => {
+  const ancestors = await Folder.find({ _id: { $in: folder.ancestors } })
+    .select('name')
+    .lean();
+  const names = new Map(ancestors.map((a) => [a._id.toString(), a.name]));
+  
+  return [
+    ...folder.ancestors.map((id) => ({ id, name: names.get(id.toString()) || '' })),
+    { id: folder._id, name: folder.name }
+  ];
+};
+
+/**
+ * Move a folder (and its subtree) under a new parent, or to the root when parent is null
+ */
+export const moveFolderTo = async (folder: IFolder, parent: IFolder | null): Promise<void> => {
+  if (parent) {
+    if (parent._id.equals(folder._id) || parent.ancestors.some((id) => id.equals(folder._id))) {
+      throw new AppError('A folder cannot be moved into itself', 400);
+    }
+    if (!isSameSpace(folder, parent)) {
+      throw new AppError('Folders cannot be moved between workspaces', 400);
+    }
+  }
+  
+  const newAncestors = parent ? [...parent.ancestors, parent._id] : [];
+  const depth = folder.ancestors.length;
+  
+  const descendants = await Folder.find({ ancestors: folder._id }).select('ancestors');
+  
+  folder.parent = parent ? parent._id : null;
+  folder.ancestors = newAncestors;
+  await folder.save();
+  
+  if (descendants.length > 0) {
+    // Replace the old prefix (everything above the moved folder) in each descendant
+    await Folder.bulkWrite(descendants.map((descendant) => ({
+      updateOne: {
+        filter: { _id: descendant._id },
+        update: { $set: { ancestors: [...newAncestors, ...descendant.ancestors.slice(depth)] } }
+      }
+    })));
+  }
+};
+
+/**
+ * Delete a folder and its subfolders. Files inside them are moved to the trash.
+ */
+export const deleteFolderTree = async (
+  folder: IFolder,
+  userId: string
+): Promise<{ folders: number; files: number }> => {
+  const descendants = await Folder.find({ ancestors: folder._id }).select('_id');
+  const folderIds = [folder._id, ...descendants.map((d) => d._id)];
+  
+  const files = await File.find({ folder: { $in: folderIds }, deletedAt: null });
+  const deletedFiles = await trashFiles(files, userId);
+  
+  await Folder.deleteMany({ _id: { $in: folderIds } });
+  
+  return { folders: folderIds.length, files: deletedFiles };
+};
@@ -1,3 +1,26 @@
 export * from './compressionService';
 export * from './auditService';
 
+export * from './sessionService';
+export * from './tokenService';
+export * from './mailService';
+export * from './twoFactorService';
+export * from './accessTokenService';
+export * from './loginThrottleService';
+export * from './oidcService';
+export * from './accountService';
+export * from './avatarService';
+export * from './quotaService';
+export * from './thumbnailService';
+export * from './scanService';
+export * from './textExtractionService';
+export * from './blobService';
+export * from './versionService';
+export * from './fileService';
+export * from './trashService';
+export * from './uploadService';
+export * from './workspaceService';
+export * from './contactService';
+export * from './folderService';
+export * from './searchService';
+export * from './tagService';
@@ -0,0 +1,109 @@
+import { LoginThrottle } from '../models';
+
+interface ThrottleStatus {
+  locked: boolean;
+  retryAfterSeconds: number;
+}
+
+/**
+ * Throttle settings (per account and per IP)
+ */
+const getThrottleConfig = () => ({
+  accountMaxAttempts: parseInt(process.env.LOGIN_MAX_ATTEMPTS || '5', 10),
+  ipMaxAttempts: parseInt(process.env.LOGIN_IP_MAX_ATTEMPTS || '20', 10),
+  lockoutMs: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10) * 60 * 1000,
+  maxLockoutMs: 24 * 60 * 60 * 1000,
+  windowMs: parseInt(process.env.LOGIN_ATTEMPT_WINDOW_MINUTES || '15', 10) * 60 * 1000
+});
+
+const accountKey = (email: string): string => `account:${email.toLowerCase()}`;
+const ipKey = (ip: string): string => `ip:${ip}`;
+
+/**
+ * Lockout duration doubles for every further batch of failures
+ */
+const getLockoutDuration = (failures: number, maxAttempts: number): number => {
+  const { lockoutMs, maxLockoutMs } = getThrottleConfig();
+  const level = Math.floor(failures / maxAttempts) - 1;
+  return Math.min(lockoutMs * Math.pow(2, Math.max(level, 0)), maxLockoutMs);
+};
+
+/**
+ * Record a failure against a key, locking it once the threshold is reached
+ */
+const recordFailure = async (key: string, maxAttempts: number): Promise<void> => {
+  const { windowMs } = getThrottleConfig();
+  const now = new Date();
+  
+  const throttle = await LoginThrottle.findOneAndUpdate(
+    { key },
+    {
+      $inc: { failures: 1 },
+      $set: { lastFailureAt: now, expiresAt: new Date(now.getTime() + windowMs) }
+    },
+    { upsert: true, new: true }
+  );
+  
+  if (throttle.failures >= maxAttempts && throttle.failures % maxAttempts === 0) {
+    const lockedUntil = new Date(now.getTime() + getLockoutDuration(throttle.failures, maxAttempts));
+    
+    await LoginThrottle.updateOne(
+      { _id: throttle._id },
+      {
+        lockedUntil,
+        // Keep the counter around for the lockout plus a fresh window
+        expiresAt: new Date(lockedUntil.getTime() + windowMs)
+      }
+    );
+  }
+};
+
+/**
+ * Check whether login attempts for an account or IP are currently blocked
+ */
+export const getLoginThrottleStatus = async (
+  email: string,
+  ip: string | undefined
+): Promise<ThrottleStatus> => {
+  const keys = [accountKey(email)];
+  if (ip) keys.push(ipKey(ip));
+  
+  const throttles = await LoginThrottle.find({
+    key: { $in: keys },
+    lockedUntil: { $gt: new Date() }
+  }).lean();
+  
+  if (throttles.length === 0) {
+    return { locked: false, retryAfterSeconds: 0 };
+  }
+  
+  const lockedUntil = Math.max(...throttles.map((t) => (t.lockedUntil as Date).getTime()));
+  
+  return {
+    locked: true,
+    retryAfterSeconds: Math.ceil((lockedUntil - Date.now()) / 1000)
+  };
+};
+
+/**
+ * Record a failed login for both the account and the client IP
+ */
+export const recordLoginFailure = async (
+  email: string,
+  ip: string | undefined
+): Promise<void> => {
+  const { accountMaxAttempts, ipMaxAttempts } = getThrottleConfig();
+  
+  await recordFailure(accountKey(email), accountMaxAttempts);
+  if (ip) {
+    await recordFailure(ipKey(ip), ipMaxAttempts);
+  }
+};
+
+/**
+ * Clear the account counter after a successful login.
+ * The IP counter is left alone so one valid account can't reset it.
+ */
+export const clearLoginFailures = async (email: string): Promise<void> => {
+  await LoginThrottle.deleteOne({ key: accountKey(email) });
+};
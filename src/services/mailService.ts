@@ -0,0 +1,169 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import { v4 as uuidv4 } from 'uuid';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send: (message: MailMessage & { from: string }) => Promise<void>;
+}
+
+/**
+ * Logs messages to stdout (local development)
+ */
+export const createConsoleTransport = (): MailTransport => ({
+  name: 'console',
+  send: async (message) => {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+});
+
+/**
+ * Writes each message as a JSON file into a directory (local development and tests)
+ */
+export const createFileTransport = (outboxDir: string): MailTransport => ({
+  name: 'file',
+  send: async (message) => {
+    await fs.promises.mkdir(outboxDir, { recursive: true });
+    
+    const filename = `${Date.now()}-${uuidv4()}.json`;
+    await fs.promises.writeFile(
+      path.join(outboxDir, filename),
+      JSON.stringify({ ...message, sentAt: new Date().toISOString() }, null, 2)
+    );
+  }
+});
+
+/**
+ * Sends messages through an SMTP server
+ */
+export const createSmtpTransport = (smtpUrl: string): MailTransport => {
+  const transporter = nodemailer.createTransport(smtpUrl);
+  
+  return {
+    name: 'smtp',
+    send: async (message) => {
+      await transporter.sendMail(message);
+    }
+  };
+};
+
+let activeTransport: MailTransport | null = null;
+
+/**
+ * Build the transport selected by MAIL_TRANSPORT
+ */
+const createTransportFromEnv = (): MailTransport => {
+  const transport = process.env.MAIL_TRANSPORT || 'console';
+  
+  switch (transport) {
+    case 'file':
+      return createFileTransport(process.env.MAIL_OUTBOX_DIR || './tmp/mail');
+    case 'smtp':
+      if (!process.env.SMTP_URL) {
+        throw new Error('SMTP_URL is required when MAIL_TRANSPORT=smtp');
+      }
+      return createSmtpTransport(process.env.SMTP_URL);
+    case 'console':
+      return createConsoleTransport();
+    default:
+      throw new Error(`Unknown mail transport: ${transport}`);
+  }
+};
+
+/**
+ * Get the active mail transport
+ */
+export const getMailTransport = (): MailTransport => {
+  if (!activeTransport) {
+    activeTransport = createTransportFromEnv();
+  }
+  return activeTransport;
+};
+
+/**
+ * Override the mail transport (e.g. to capture mail in tests)
+ */
+export const setMailTransport = (transport: MailTransport | null): void => {
+  activeTransport = transport;
+};
+
+/**
+ * Send an email through the active transport
+ */
+export const sendMail = async (message: MailMessage): Promise<void> => {
+  const from = process.env.MAIL_FROM || 'NuaShare <no-reply@localhost>';
+  await getMailTransport().send({ ...message, from });
+};
+
+/**
+ * Send password reset instructions
+ */
+export const sendPasswordResetEmail = async (
+  to: string,
+  name: string,
+  token: string
+): Promise<void> => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  const resetUrl = `${frontendUrl}/reset-password?token=${token}`;
+  
+  await sendMail({
+    to,
+    subject: 'Reset your NuaShare password',
+    text: `Hi ${name},\n\nUse the link below to reset your password:\n${resetUrl}\n\nIf you did not request this, you can ignore this email.`
+  });
+};
+
+/**
+ * Send email address verification link
+ */
+export const sendVerificationEmail = async (
+  to: string,
+  name: string,
+  token: string
+): Promise<void> => {
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  const verifyUrl = `${frontendUrl}/verify-email?token=${token}`;
+  
+  await sendMail({
+    to,
+    subject: 'Verify your NuaShare email address',
+    text: `Hi ${name},\n\nPlease confirm your email address to start sharing files:\n${verifyUrl}`
+  });
+};
+
+/**
+ * Notify a user that their password was changed
+ */
+export const sendPasswordChangedEmail = async (
+  to: string,
+  name: string
+): Promise<void> => {
+  await sendMail({
+    to,
+    subject: 'Your NuaShare password was changed',
+    text: `Hi ${name},\n\nYour password was just changed and all other sessions were signed out.\n\nIf this wasn't you, reset your password immediately.`
+  });
+};
+
+/**
+ * Confirm that an account is scheduled for deletion
+ */
+export const sendAccountDeletionEmail = async (
+  to: string,
+  name: string,
+  scheduledFor: Date
+): Promise<void> => {
+  await sendMail({
+    to,
+    subject: 'Your NuaShare account is scheduled for deletion',
+    text: `Hi ${name},\n\nYour account and all of your files will be permanently deleted on ${scheduledFor.toUTCString()}.\n\nChanged your mind? Sign in and cancel the deletion before then.`
+  });
+};
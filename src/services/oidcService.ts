@@ -0,0 +1,348 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { OidcLoginState, User } from '../models';
+import { IUser } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import {
+  generateOidcStateToken,
+  generateSecureToken,
+  getBaseUrl,
+  verifyOidcStateToken
+} from '../utils/helpers';
+
+interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri: string;
+  scopes: string;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+interface Jwk extends crypto.JsonWebKey {
+  kid?: string;
+  use?: string;
+}
+
+export interface OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  nonce?: string;
+  email?: string;
+  email_verified?: boolean | string;
+  name?: string;
+  preferred_username?: string;
+}
+
+interface OidcAuthorizationRequest {
+  url: string;
+  stateToken: string; // Set as a cookie and checked by the callback
+  expiresAt: Date;
+}
+
+interface OidcLoginResult {
+  claims: OidcClaims;
+  returnTo?: string;
+}
+
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const LOGIN_STATE_TTL_MS = 10 * 60 * 1000;
+
+let metadataCache: { metadata: ProviderMetadata; fetchedAt: number } | null = null;
+let jwksCache: { keys: Jwk[]; fetchedAt: number } | null = null;
+
+/**
+ * Read OIDC settings from the environment. Returns null when SSO is not configured.
+ */
+export const getOidcConfig = (): OidcConfig | null => {
+  const issuer = process.env.OIDC_ISSUER;
+  const clientId = process.env.OIDC_CLIENT_ID;
+  
+  if (!issuer || !clientId) {
+    return null;
+  }
+  
+  return {
+    issuer: issuer.replace(/\/$/, ''),
+    clientId,
+    clientSecret: process.env.OIDC_CLIENT_SECRET,
+    redirectUri: process.env.OIDC_REDIRECT_URI || `${getBaseUrl()}/api/auth/oidc/callback`,
+    scopes: process.env.OIDC_SCOPES || 'openid email profile'
+  };
+};
+
+/**
+ * Whether local email/password login is enabled for this deployment
+ */
+export const isLocalLoginEnabled = (): boolean => {
+  return process.env.LOCAL_LOGIN_ENABLED !== 'false';
+};
+
+/**
+ * Whether a forced password reset blocks sign-in. Accounts that sign in only
+ * through the identity provider have no password to reset, so they are let through.
+ */
+export const isPasswordResetPending = (user: IUser): boolean => {
+  return user.passwordResetRequired && user.hasPassword && isLocalLoginEnabled();
+};
+
+/**
+ * Base64url encode a buffer (PKCE, state)
+ */
+const base64Url = (buffer: Buffer): string => {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Fetch JSON from the identity provider
+ */
+const fetchJson = async <T>(url: string, init?: RequestInit): Promise<T> => {
+  const response = await fetch(url, init);
+  
+  if (!response.ok) {
+    const body = await response.text();
+    throw new Error(`OIDC request to ${url} failed (${response.status}): ${body}`);
+  }
+  
+  return response.json() as Promise<T>;
+};
+
+/**
+ * Discover provider endpoints (cached for an hour)
+ */
+const getProviderMetadata = async (config: OidcConfig): Promise<ProviderMetadata> => {
+  if (metadataCache && Date.now() - metadataCache.fetchedAt < METADATA_TTL_MS) {
+    return metadataCache.metadata;
+  }
+  
+  const metadata = await fetchJson<ProviderMetadata>(
+    `${config.issuer}/.well-known/openid-configuration`
+  );
+  
+  if (metadata.issuer.replace(/\/$/, '') !== config.issuer) {
+    throw new Error(`OIDC issuer mismatch: expected ${config.issuer}, got ${metadata.issuer}`);
+  }
+  
+  metadataCache = { metadata, fetchedAt: Date.now() };
+  return metadata;
+};
+
+/**
+ * Find the signing key for a key ID, refetching the JWKS once on a miss (key rotation)
+ */
+const getSigningKey = async (
+  metadata: ProviderMetadata,
+  kid: string | undefined
+): Promise<crypto.KeyObject> => {
+  const findKey = (keys: Jwk[]) =>
+    keys.find((key) => (key.use === undefined || key.use === 'sig') && (!kid || key.kid === kid));
+  
+  let key = jwksCache && Date.now() - jwksCache.fetchedAt < METADATA_TTL_MS
+    ? findKey(jwksCache.keys)
+    : undefined;
+  
+  if (!key) {
+    const jwks = await fetchJson<{ keys: Jwk[] }>(metadata.jwks_uri);
+    jwksCache = { keys: jwks.keys, fetchedAt: Date.now() };
+    key = findKey(jwks.keys);
+  }
+  
+  if (!key) {
+    throw new Error(`No signing key found for kid ${kid}`);
+  }
+  
+  return crypto.createPublicKey({ key, format: 'jwk' });
+};
+
+/**
+ * Validate an ID token's signature and standard claims
+ */
+const verifyIdToken = async (
+  config: OidcConfig,
+  metadata: ProviderMetadata,
+  idToken: string,
+  nonce: string
+): Promise<OidcClaims> => {
+  const decoded = jwt.decode(idToken, { complete: true });
+  
+  if (!decoded || typeof decoded.payload === 'string') {
+    throw new Error('Malformed ID token');
+  }
+  
+  const key = await getSigningKey(metadata, decoded.header.kid);
+  
+  const claims = jwt.verify(idToken, key, {
+    algorithms: ['RS256', 'RS384', 'RS512', 'ES256', 'ES384', 'ES512', 'PS256'],
+    issuer: [config.issuer, `${config.issuer}/`],
+    audience: config.clientId,
+    clockTolerance: 60
+  }) as OidcClaims;
+  
+  if (claims.nonce !== nonce) {
+    throw new Error('ID token nonce mismatch');
+  }
+  
+  return claims;
+};
+
+/**
+ * Start an authorization-code + PKCE login and return the provider URL
+ * along with a signed state token for the browser
+ */
+export const createOidcAuthorizationUrl = async (
+  returnTo?: string
+): Promise<OidcAuthorizationRequest> => {
+  const config = getOidcConfig();
+  if (!config) {
+    throw new Error('OIDC is not configured');
+  }
+  
+  const metadata = await getProviderMetadata(config);
+  
+  const state = base64Url(crypto.randomBytes(32));
+  const nonce = base64Url(crypto.randomBytes(32));
+  const codeVerifier = base64Url(crypto.randomBytes(32));
+  const codeChallenge = base64Url(crypto.createHash('sha256').update(codeVerifier).digest());
+  
+  const expiresAt = new Date(Date.now() + LOGIN_STATE_TTL_MS);
+  
+  // Stored server-side so any instance can complete the callback
+  await OidcLoginState.create({
+    state,
+    nonce,
+    codeVerifier,
+    returnTo,
+    expiresAt
+  });
+  
+  const params = new URLSearchParams({
+    response_type: 'code',
+    client_id: config.clientId,
+    redirect_uri: config.redirectUri,
+    scope: config.scopes,
+    state,
+    nonce,
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256'
+  });
+  
+  return {
+    url: `${metadata.authorization_endpoint}?${params.toString()}`,
+    stateToken: generateOidcStateToken(state, LOGIN_STATE_TTL_MS / 1000),
+    expiresAt
+  };
+};
+
+/**
+ * Complete the login: check state, exchange the code and validate the ID token.
+ * The state token must come from the browser that started the login (login CSRF).
+ */
+export const completeOidcLogin = async (
+  code: string,
+  state: string,
+  stateToken: string | undefined
+): Promise<OidcLoginResult> => {
+  const config = getOidcConfig();
+  if (!config) {
+    throw new Error('OIDC is not configured');
+  }
+  
+  if (!stateToken || !verifyOidcStateToken(stateToken, state)) {
+    throw new AppError('Sign-in was started in another browser or has expired. Please try again.', 400);
+  }
+  
+  // State is single-use
+  const loginState = await OidcLoginState.findOneAndDelete({
+    state,
+    expiresAt: { $gt: new Date() }
+  });
+  
+  if (!loginState) {
+    throw new Error('Invalid or expired login state');
+  }
+  
+  const metadata = await getProviderMetadata(config);
+  
+  const body = new URLSearchParams({
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: config.redirectUri,
+    client_id: config.clientId,
+    code_verifier: loginState.codeVerifier
+  });
+  if (config.clientSecret) {
+    body.set('client_secret', config.clientSecret);
+  }
+  
+  const tokens = await fetchJson<{ id_token?: string }>(metadata.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body
+  });
+  
+  if (!tokens.id_token) {
+    throw new Error('Token response did not include an ID token');
+  }
+  
+  const claims = await verifyIdToken(config, metadata, tokens.id_token, loginState.nonce);
+  
+  return { claims, returnTo: loginState.returnTo };
+};
+
+/**
+ * Find the user linked to an OIDC identity, link an existing account by
+ * verified email, or just-in-time provision a new one.
+ */
+export const resolveOidcUser = async (claims: OidcClaims): Promise<IUser> => {
+  const existing = await User.findOne({ oidcIssuer: claims.iss, oidcSubject: claims.sub });
+  if (existing) {
+    return existing;
+  }
+  
+  const emailVerified = claims.email_verified === true || claims.email_verified === 'true';
+  
+  if (!claims.email) {
+    throw new AppError('Identity provider did not return an email address', 403);
+  }
+  
+  if (!emailVerified && process.env.OIDC_REQUIRE_VERIFIED_EMAIL !== 'false') {
+    throw new AppError('Identity provider has not verified this email address', 403);
+  }
+  
+  const email = claims.email.toLowerCase();
+  const byEmail = await User.findOne({ email });
+  
+  if (byEmail) {
+    byEmail.oidcIssuer = claims.iss;
+    byEmail.oidcSubject = claims.sub;
+    byEmail.emailVerified = true;
+    byEmail.emailVerifiedAt = byEmail.emailVerifiedAt || new Date();
+    await byEmail.save();
+    return byEmail;
+  }
+  
+  if (process.env.OIDC_AUTO_PROVISION === 'false') {
+    throw new AppError('No account exists for this email. Ask an administrator for access.', 403);
+  }
+  
+  const name = (claims.name || claims.preferred_username || email.split('@')[0]).slice(0, 50);
+  
+  return User.create({
+    email,
+    // Random password - SSO users never sign in with it
+    password: generateSecureToken(),
+    hasPassword: false,
+    name: name.length >= 2 ? name : email,
+    emailVerified: true,
+    emailVerifiedAt: new Date(),
+    oidcIssuer: claims.iss,
+    oidcSubject: claims.sub
+  });
+};
@@ -0,0 +1,115 @@
+import { Types } from 'mongoose';
+import { User } from '../models';
+import { IUser } from '../types';
+import { AppError } from '../middleware/errorHandler';
+
+export interface StorageUsage {
+  used: number;
+  quota: number | null; // null when unlimited
+  remaining: number | null;
+}
+
+interface StorageCharge {
+  userId: Types.ObjectId | string;
+  bytes: number;
+}
+
+/**
+ * Default per-user quota in bytes (STORAGE_QUOTA_BYTES, 0 for unlimited)
+ */
+export const getDefaultStorageQuota = (): number => {
+  return parseInt(process.env.STORAGE_QUOTA_BYTES || '10737418240', 10);
+};
+
+/**
+ * Effective quota for a user: the admin override, else the default.
+ * Returns null when the user is unlimited.
+ */
+const getQuotaLimit = (user: Pick<IUser, 'storageQuota'>): number | null => {
+  const quota = user.storageQuota ?? getDefaultStorageQuota();
+  return quota > 0 ? quota : null;
+};
+
+/**
+ * Storage used by a user against their quota
+ */
+export const getStorageUsage = (user: Pick<IUser, 'storageQuota' | 'storageUsed'>): StorageUsage => {
+  const quota = getQuotaLimit(user);
+  const used = user.storageUsed || 0;
+  
+  return {
+    used,
+    quota,
+    remaining: quota === null ? null : Math.max(quota - used, 0)
+  };
+};
+
+const quotaExceeded = (): AppError => {
+  return new AppError('Storage quota exceeded. Delete some files or ask an administrator for more space.', 413);
+};
+
+/**
+ * Throw if a user does not have room for the given number of bytes
+ */
+export const assertStorageAvailable = async (userId: string, bytes: number): Promise<void> => {
+  const user = await User.findById(userId).select('storageQuota storageUsed');
+  
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+  
+  const { remaining } = getStorageUsage(user);
+  
+  if (remaining !== null && bytes > remaining) {
+    throw quotaExceeded();
+  }
+};
+
+/**
+ * Charge bytes to a user, refusing atomically if they would go over quota
+ */
+export const reserveStorage = async (userId: string, bytes: number): Promise<void> => {
+  const user = await User.findById(userId).select('storageQuota');
+  
+  if (!user) {
+    throw new AppError('User not found', 404);
+  }
+  
+  const quota = getQuotaLimit(user);
+  const filter = quota === null
+    ? { _id: user._id }
+    : { _id: user._id, storageUsed: { $lte: quota - bytes } };
+  
+  const result = await User.updateOne(filter, { $inc: { storageUsed: bytes } });
+  
+  if (result.matchedCount === 0) {
+    throw quotaExceeded();
+  }
+};
+
+/**
+ * Credit bytes back to a user (a negative amount charges them without a quota check)
+ */
+export const releaseStorage = async (
+  userId: Types.ObjectId | string,
+  bytes: number
+): Promise<void> => {
+  if (bytes === 0) return;
+  await User.updateOne({ _id: userId }, { $inc: { storageUsed: -bytes } });
+};
+
+/**
+ * Credit back the content of many deleted files or versions, one update per user
+ */
+export const releaseStorageCharges = async (charges: StorageCharge[]): Promise<void> => {
+  const totals = new Map<string, number>();
+  
+  for (const { userId, bytes } of charges) {
+    const key = userId.toString();
+    totals.set(key, (totals.get(key) || 0) + bytes);
+  }
+  
+  for (const [userId, bytes] of totals) {
+    await releaseStorage(userId, bytes);
+  }
+};
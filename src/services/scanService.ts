@@ -0,0 +1,138 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { File, FileBlob, FileVersion } from '../models';
+import { IFile, IFileBlob, ScanStatus } from '../types';
+import { getScanner } from '../scanners';
+import { getStorage } from '../storage';
+import { logAudit } from './auditService';
+import { deleteThumbnails } from './thumbnailService';
+
+export interface ScanVerdict {
+  scanStatus: ScanStatus;
+  scanSignature?: string;
+  scannedAt: Date;
+}
+
+/**
+ * Scan content with the configured scanner. A scanner failure is
+ * recorded as an error verdict rather than failing the upload.
+ */
+export const scanContent = async (source: Readable): Promise<ScanVerdict> => {
+  try {
+    const result = await getScanner().scan(source);
+    
+    return {
+      scanStatus: result.infected ? 'infected' : 'clean',
+      scanSignature: result.signature,
+      scannedAt: new Date()
+    };
+  } catch (error) {
+    console.error('Malware scan failed:', error);
+    return { scanStatus: 'error', scannedAt: new Date() };
+  }
+};
+
+/**
+ * Scan a local file (an upload before it is stored)
+ */
+export const scanLocalFile = async (filePath: string): Promise<ScanVerdict> => {
+  return scanContent(fs.createReadStream(filePath));
+};
+
+/**
+ * Storage key for content. Anything not known to be clean is held under
+ * quarantine/, which is never served directly.
+ */
+export const getBlobKey = (hash: string, scanStatus: ScanStatus): string => {
+  return scanStatus === 'clean' ? hash : `quarantine/${hash}`;
+};
+
+/**
+ * Why a file that is not clean cannot be downloaded or shared
+ */
+export const getScanRefusal = (scanStatus: ScanStatus): string => {
+  switch (scanStatus) {
+    case 'pending':
+      return 'This file has not been scanned for malware yet';
+    case 'infected':
+      return 'This file contains malware and has been quarantined';
+    default:
+      return 'This file could not be scanned for malware';
+  }
+};
+
+/**
+ * Record that an infected file was quarantined
+ */
+export const logQuarantine = async (
+  file: IFile,
+  userId: string,
+  signature: string | undefined,
+  context: { ipAddress?: string; userAgent?: string } = {}
+): Promise<void> => {
+  await logAudit(userId, 'file_quarantined', {
+    fileId: file._id.toString(),
+    workspaceId: file.workspace?.toString(),
+    details: {
+      filename: file.originalName,
+      signature
+    },
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent
+  });
+};
+
+/**
+ * Scan stored content again (content stored before scanning, or whose scan
+ * failed) and apply the verdict to the blob and every file and version
+ * using it. Content moves in or out of quarantine to match.
+ */
+export const rescanBlob = async (blob: IFileBlob): Promise<ScanVerdict> => {
+  const storage = getStorage(blob.storage);
+  const verdict = await scanContent(await storage.getStream(blob.key));
+  
+  if (verdict.scanStatus === 'error') {
+    await FileBlob.updateOne({ _id: blob._id }, { scanStatus: 'error', scannedAt: verdict.scannedAt });
+    await File.updateMany({ blob: blob._id }, { scanStatus: 'error' });
+    await FileVersion.updateMany({ blob: blob._id }, { scanStatus: 'error' });
+    return verdict;
+  }
+  
+  const key = getBlobKey(blob.hash, verdict.scanStatus);
+  
+  if (key !== blob.key) {
+    await storage.put(key, await storage.getStream(blob.key));
+    await storage.delete(blob.key);
+  }
+  
+  const infected = verdict.scanStatus === 'infected';
+  if (infected) {
+    await deleteThumbnails(blob);
+  }
+  
+  await FileBlob.updateOne(
+    { _id: blob._id },
+    { ...verdict, key, ...(infected ? { thumbnails: [] } : {}) }
+  );
+  await File.updateMany(
+    { blob: blob._id },
+    {
+      scanStatus: verdict.scanStatus,
+      filename: key,
+      ...(infected ? { thumbnails: [] } : {})
+    }
+  );
+  await FileVersion.updateMany(
+    { blob: blob._id },
+    { scanStatus: verdict.scanStatus, filename: key }
+  );
+  
+  if (infected) {
+    const files = await File.find({ blob: blob._id });
+    for (const file of files) {
+      await logQuarantine(file, file.owner.toString(), verdict.scanSignature);
+    }
+  }
+  
+  return verdict;
+};
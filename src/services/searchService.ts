@@ -0,0 +1,81 @@
+import { Types } from 'mongoose';
+import { File, Share, Workspace } from '../models';
+import { escapeRegex } from '../utils/helpers';
+
+export interface FileSearchOptions {
+  query: string;
+  type?: string; // Full MIME type, or its top-level type (image, text, ...)
+  minSize?: number;
+  maxSize?: number;
+  from?: Date;
+  to?: Date;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Full-text search over file names, tags and extracted text, ranked by relevance.
+ * Only files the user can open are matched: their personal files, files in
+ * their workspaces and files shared with them by a share that is still valid.
+ */
+export const searchAccessibleFiles = async (
+  userId: string,
+  options: FileSearchOptions
+) => {
+  const userObjectId = new Types.ObjectId(userId);
+  
+  const [workspaceIds, sharedFileIds] = await Promise.all([
+    Workspace.find({ 'members.user': userObjectId }).distinct('_id'),
+    Share.find({
+      sharedWith: userObjectId,
+      shareType: 'user',
+      isActive: true,
+      $or: [
+        { expiresAt: null },
+        { expiresAt: { $gt: new Date() } }
+      ]
+    }).distinct('file')
+  ]);
+  
+  const filter: Record<string, unknown> = {
+    $text: { $search: options.query },
+    deletedAt: null,
+    $or: [
+      { owner: userObjectId, workspace: null },
+      { workspace: { $in: workspaceIds } },
+      { _id: { $in: sharedFileIds } }
+    ]
+  };
+  
+  if (options.type) {
+    filter.mimeType = options.type.includes('/')
+      ? options.type
+      : { $regex: `^${escapeRegex(options.type)}/` };
+  }
+  
+  if (options.minSize !== undefined || options.maxSize !== undefined) {
+    filter.size = {
+      ...(options.minSize !== undefined ? { $gte: options.minSize } : {}),
+      ...(options.maxSize !== undefined ? { $lte: options.maxSize } : {})
+    };
+  }
+  
+  if (options.from || options.to) {
+    filter.createdAt = {
+      ...(options.from ? { $gte: options.from } : {}),
+      ...(options.to ? { $lte: options.to } : {})
+    };
+  }
+  
+  const [files, total] = await Promise.all([
+    File.find(filter, { score: { $meta: 'textScore' } })
+      .populate('owner', 'name email avatarUrl')
+      .sort({ score: { $meta: 'textScore' }, createdAt: -1 })
+      .skip((options.page - 1) * options.limit)
+      .limit(options.limit)
+      .lean(),
+    File.countDocuments(filter)
+  ]);
+  
+  return { files, total };
+};
@@ -0,0 +1,191 @@
+import { Session, User } from '../models';
+import { AuthTokens, ISession, IUser } from '../types';
+import {
+  generateSecureToken,
+  generateToken,
+  getAccessTokenExpiresIn,
+  hashToken
+} from '../utils/helpers';
+
+interface SessionMeta {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+interface RotateResult {
+  session: ISession;
+  tokens: AuthTokens;
+}
+
+// A rotated token presented this soon after rotation is a concurrent
+// refresh from the same client, not a copied token
+const ROTATION_GRACE_MS = 10 * 1000;
+
+/**
+ * Get refresh token lifetime in milliseconds
+ */
+const getRefreshTokenTtl = (): number => {
+  const days = parseInt(process.env.REFRESH_TOKEN_EXPIRES_DAYS || '30', 10);
+  return days * 24 * 60 * 60 * 1000;
+};
+
+/**
+ * Create a new session and issue its first token pair
+ */
+export const createSession = async (
+  user: IUser,
+  meta: SessionMeta = {}
+): Promise<AuthTokens> => {
+  const refreshToken = generateSecureToken();
+  
+  const session = await Session.create({
+    user: user._id,
+    refreshTokenHash: hashToken(refreshToken),
+    userAgent: meta.userAgent,
+    ipAddress: meta.ipAddress,
+    lastSeenAt: new Date(),
+    expiresAt: new Date(Date.now() + getRefreshTokenTtl())
+  });
+  
+  return {
+    token: generateToken(user, session._id.toString()),
+    refreshToken,
+    expiresIn: getAccessTokenExpiresIn()
+  };
+};
+
+/**
+ * Exchange a refresh token for a new token pair. The token is swapped in
+ * a single update, so of two concurrent refreshes only one succeeds.
+ * Presenting an already-rotated token revokes the session, since it
+ * means the token was copied.
+ */
+export const rotateSession = async (
+  refreshToken: string,
+  meta: SessionMeta = {}
+): Promise<RotateResult | null> => {
+  const tokenHash = hashToken(refreshToken);
+  const nextRefreshToken = generateSecureToken();
+  const now = new Date();
+  
+  const update: Record<string, unknown> = {
+    previousTokenHash: tokenHash,
+    refreshTokenHash: hashToken(nextRefreshToken),
+    lastSeenAt: now,
+    rotatedAt: now
+  };
+  if (meta.ipAddress) update.ipAddress = meta.ipAddress;
+  if (meta.userAgent) update.userAgent = meta.userAgent;
+  
+  const session = await Session.findOneAndUpdate(
+    {
+      refreshTokenHash: tokenHash,
+      revokedAt: null,
+      expiresAt: { $gt: now }
+    },
+    { $set: update },
+    { new: true }
+  );
+  
+  if (!session) {
+    // Reuse of a rotated token - revoke the whole session
+    await Session.updateOne(
+      {
+        previousTokenHash: tokenHash,
+        revokedAt: null,
+        rotatedAt: { $not: { $gte: new Date(now.getTime() - ROTATION_GRACE_MS) } }
+      },
+      { revokedAt: now }
+    );
+    return null;
+  }
+  
+  const owner = await User.findById(session.user);
+  if (!owner || owner.isDisabled) {
+    return null;
+  }
+  
+  return {
+    session,
+    tokens: {
+      token: generateToken(owner, session._id.toString()),
+      refreshToken: nextRefreshToken,
+      expiresIn: getAccessTokenExpiresIn()
+    }
+  };
+};
+
+/**
+ * Find an active session for an access token
+ */
+export const findActiveSession = async (
+  sessionId: string,
+  userId: string
+): Promise<ISession | null> => {
+  return Session.findOne({
+    _id: sessionId,
+    user: userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  });
+};
+
+/**
+ * Record session activity, at most once a minute
+ */
+export const touchSession = async (session: ISession): Promise<void> => {
+  if (Date.now() - session.lastSeenAt.getTime() < 60 * 1000) {
+    return;
+  }
+  
+  try {
+    await Session.updateOne({ _id: session._id }, { lastSeenAt: new Date() });
+  } catch (error) {
+    console.error('Session touch error:', error);
+  }
+};
+
+/**
+ * List active sessions for a user
+ */
+export const getUserSessions = async (userId: string) => {
+  return Session.find({
+    user: userId,
+    revokedAt: null,
+    expiresAt: { $gt: new Date() }
+  })
+    .sort({ lastSeenAt: -1 })
+    .lean();
+};
+
+/**
+ * Revoke a single session belonging to a user
+ */
+export const revokeSession = async (
+  sessionId: string,
+  userId: string
+): Promise<boolean> => {
+  const result = await Session.updateOne(
+    { _id: sessionId, user: userId, revokedAt: null },
+    { revokedAt: new Date() }
+  );
+  
+  return result.modifiedCount > 0;
+};
+
+/**
+ * Revoke every session for a user, optionally keeping one
+ */
+export const revokeAllSessions = async (
+  userId: string,
+  exceptSessionId?: string
+): Promise<number> => {
+  const filter: Record<string, unknown> = { user: userId, revokedAt: null };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+  
+  const result = await Session.updateMany(filter, { revokedAt: new Date() });
+  
+  return result.modifiedCount;
+};
@@ -0,0 +1,81 @@
+import { File } from '../models';
+import { IFile, MAX_METADATA_KEYS, MAX_TAGS_PER_FILE } from '../types';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Tags are matched case-insensitively: trimmed, single-spaced and lowercased
+ */
+export const normalizeTag = (tag: string): string => {
+  return tag.trim().replace(/\s+/g, ' ').toLowerCase();
+};
+
+/**
+ * Add tags to a file, ignoring ones it already has
+ */
+export const addFileTags = async (file: IFile, tags: string[]): Promise<IFile> => {
+  const merged = [...new Set([...file.tags, ...tags.map(normalizeTag)])];
+  
+  if (merged.length > MAX_TAGS_PER_FILE) {
+    throw new AppError(`A file can have at most ${MAX_TAGS_PER_FILE} tags`, 400);
+  }
+  
+  file.tags = merged;
+  await file.save();
+  
+  return file;
+};
+
+/**
+ * Remove a tag from a file. Returns false if the file did not have it.
+ */
+export const removeFileTag = async (file: IFile, tag: string): Promise<boolean> => {
+  const normalized = normalizeTag(tag);
+  
+  if (!file.tags.includes(normalized)) {
+    return false;
+  }
+  
+  file.tags = file.tags.filter((existing) => existing !== normalized);
+  await file.save();
+  
+  return true;
+};
+
+/**
+ * Merge metadata into a file; a null value removes its key
+ */
+export const updateFileMetadata = async (
+  file: IFile,
+  changes: Record<string, string | null>
+): Promise<IFile> => {
+  for (const [key, value] of Object.entries(changes)) {
+    if (value === null) {
+      file.metadata.delete(key);
+    } else {
+      file.metadata.set(key, value);
+    }
+  }
+  
+  if (file.metadata.size > MAX_METADATA_KEYS) {
+    throw new AppError(`A file can have at most ${MAX_METADATA_KEYS} metadata entries`, 400);
+  }
+  
+  await file.save();
+  
+  return file;
+};
+
+/**
+ * Count the tags used on the files matching a filter, most used first
+ */
+export const getTagCounts = async (
+  filter: Record<string, unknown>
+): Promise<{ tag: string; count: number }[]> => {
+  return File.aggregate([
+    { $match: filter },
+    { $unwind: '$tags' },
+    { $group: { _id: '$tags', count: { $sum: 1 } } },
+    { $sort: { count: -1, _id: 1 } },
+    { $project: { _id: 0, tag: '$_id', count: 1 } }
+  ]);
+};
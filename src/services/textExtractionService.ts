@@ -0,0 +1,157 @@
+import fs from 'fs';
+import pdfParse from 'pdf-parse';
+import yauzl from 'yauzl';
+import { File, FileBlob } from '../models';
+import { IFileBlob } from '../types';
+import { getStorage } from '../storage';
+
+type TextExtractor = (content: Buffer) => Promise<string>;
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Files larger than this are not read for search (SEARCH_EXTRACT_MAX_BYTES)
+ */
+const getExtractMaxBytes = (): number => {
+  return parseInt(process.env.SEARCH_EXTRACT_MAX_BYTES || '20971520', 10);
+};
+
+/**
+ * Characters of extracted text kept per file (SEARCH_TEXT_MAX_CHARS)
+ */
+const getTextMaxChars = (): number => {
+  return parseInt(process.env.SEARCH_TEXT_MAX_CHARS || '100000', 10);
+};
+
+const decodeXmlEntities = (text: string): string => {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_match, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_match, code) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+};
+
+const extractPlainText: TextExtractor = async (content) => {
+  return content.toString('utf8').replace(/^\uFEFF/, '');
+};
+
+const extractPdfText: TextExtractor = async (content) => {
+  const { text } = await pdfParse(content);
+  return text;
+};
+
+/**
+ * Body text of a Word document (word/document.xml)
+ */
+const extractDocxText: TextExtractor = async (content) => {
+  const zip = await yauzl.fromBufferPromise(content, { lazyEntries: true });
+  
+  try {
+    for await (const entry of zip.eachEntry()) {
+      if (entry.fileName !== 'word/document.xml') {
+        continue;
+      }
+      
+      // The declared size can lie; stop reading past the limit (zip bombs)
+      const chunks: Buffer[] = [];
+      let length = 0;
+      
+      for await (const chunk of await zip.openReadStreamPromise(entry)) {
+        length += (chunk as Buffer).length;
+        if (length > getExtractMaxBytes()) {
+          throw new Error('Document text is too large to extract');
+        }
+        chunks.push(chunk as Buffer);
+      }
+      
+      const xml = Buffer.concat(chunks).toString('utf8');
+      
+      return decodeXmlEntities(
+        xml
+          .replace(/<w:tab\/>|<w:br\/>|<\/w:p>/g, ' ')
+          .replace(/<[^>]+>/g, '')
+      );
+    }
+    
+    return '';
+  } finally {
+    zip.close();
+  }
+};
+
+const TEXT_EXTRACTORS: Record<string, TextExtractor> = {
+  'text/plain': extractPlainText,
+  'text/csv': extractPlainText,
+  'application/pdf': extractPdfText,
+  [DOCX_MIME_TYPE]: extractDocxText
+};
+
+/**
+ * Whether searchable text can be extracted from a MIME type
+ */
+export const canExtractText = (mimeType: string): boolean => {
+  return mimeType in TEXT_EXTRACTORS;
+};
+
+export const getExtractableMimeTypes = (): string[] => {
+  return Object.keys(TEXT_EXTRACTORS);
+};
+
+/**
+ * Extract searchable text from a local file or its content, with
+ * whitespace collapsed and cut to the stored length. Returns null for
+ * unsupported types, files over the size limit and unreadable documents.
+ */
+export const extractText = async (
+  source: string | Buffer,
+  mimeType: string
+): Promise<string | null> => {
+  const extractor = TEXT_EXTRACTORS[mimeType];
+  
+  if (!extractor) {
+    return null;
+  }
+  
+  try {
+    const size = typeof source === 'string' ? (await fs.promises.stat(source)).size : source.length;
+    
+    if (size > getExtractMaxBytes()) {
+      return null;
+    }
+    
+    const content = typeof source === 'string' ? await fs.promises.readFile(source) : source;
+    const text = await extractor(content);
+    
+    return text.replace(/\s+/g, ' ').trim().slice(0, getTextMaxChars());
+  } catch (error) {
+    console.error(`Text extraction failed for a ${mimeType} file:`, error);
+    return null;
+  }
+};
+
+/**
+ * Extract text from stored content and attach it to the blob and every
+ * file using it (backfill for content uploaded before search existed).
+ * Content that yields no text gets an empty string so it is not retried.
+ */
+export const createBlobText = async (blob: IFileBlob, mimeType: string): Promise<string> => {
+  let contentText = '';
+  
+  if (blob.size <= getExtractMaxBytes()) {
+    const chunks: Buffer[] = [];
+    
+    for await (const chunk of await getStorage(blob.storage).getStream(blob.key)) {
+      chunks.push(chunk as Buffer);
+    }
+    
+    contentText = await extractText(Buffer.concat(chunks), mimeType) ?? '';
+  }
+  
+  await FileBlob.updateOne({ _id: blob._id }, { contentText });
+  await File.updateMany({ blob: blob._id }, { contentText });
+  
+  return contentText;
+};
@@ -0,0 +1,123 @@
+import { Readable } from 'stream';
+import { File, FileBlob } from '../models';
+import { IFileBlob, IThumbnail, StorageDriver, ThumbnailFormat } from '../types';
+import { getStorage } from '../storage';
+import { createThumbnailImages } from './compressionService';
+
+export const THUMBNAIL_SIZES = [128, 256, 512];
+export const THUMBNAIL_FORMATS: ThumbnailFormat[] = ['webp', 'jpeg'];
+
+const THUMBNAIL_MIME_TYPES = [
+  'image/jpeg',
+  'image/jpg',
+  'image/png',
+  'image/webp',
+  'image/gif',
+  'image/tiff',
+  'image/avif'
+];
+
+/**
+ * Whether thumbnails can be generated for a MIME type
+ */
+export const canCreateThumbnails = (mimeType: string): boolean => {
+  return THUMBNAIL_MIME_TYPES.includes(mimeType);
+};
+
+/**
+ * Storage key of a thumbnail. Thumbnails belong to the content, not the file.
+ */
+export const getThumbnailKey = (hash: string, size: number, format: ThumbnailFormat): string => {
+  return `thumbnails/${hash}-${size}.${format === 'jpeg' ? 'jpg' : 'webp'}`;
+};
+
+export const getThumbnailMimeType = (format: ThumbnailFormat): string => {
+  return format === 'jpeg' ? 'image/jpeg' : 'image/webp';
+};
+
+/**
+ * Generate and store every thumbnail of an image. Images that cannot be
+ * decoded get no thumbnails rather than failing the upload.
+ */
+export const storeThumbnails = async (
+  hash: string,
+  source: string | Buffer,
+  storage: StorageDriver
+): Promise<IThumbnail[]> => {
+  try {
+    const images = await createThumbnailImages(source, THUMBNAIL_SIZES, THUMBNAIL_FORMATS);
+    
+    for (const image of images) {
+      await storage.put(getThumbnailKey(hash, image.size, image.format), Readable.from(image.data), {
+        contentType: getThumbnailMimeType(image.format)
+      });
+    }
+    
+    return images.map(({ size, format, width, height, data }) => ({
+      size,
+      format,
+      width,
+      height,
+      bytes: data.length
+    }));
+  } catch (error) {
+    console.error(`Thumbnail generation failed for ${hash}:`, error);
+    return [];
+  }
+};
+
+/**
+ * Generate thumbnails for stored content and attach them to the blob and
+ * every file using it (backfill for content uploaded before thumbnails)
+ */
+export const createBlobThumbnails = async (blob: IFileBlob): Promise<IThumbnail[]> => {
+  const storage = getStorage(blob.storage);
+  const chunks: Buffer[] = [];
+  
+  for await (const chunk of await storage.getStream(blob.key)) {
+    chunks.push(chunk as Buffer);
+  }
+  
+  const thumbnails = await storeThumbnails(blob.hash, Buffer.concat(chunks), storage);
+  
+  if (thumbnails.length > 0) {
+    await FileBlob.updateOne({ _id: blob._id }, { thumbnails });
+    await File.updateMany({ blob: blob._id }, { thumbnails });
+  }
+  
+  return thumbnails;
+};
+
+/**
+ * Delete a blob's thumbnails from storage
+ */
+export const deleteThumbnails = async (blob: IFileBlob): Promise<void> => {
+  const storage = getStorage(blob.storage);
+  
+  for (const thumbnail of blob.thumbnails) {
+    const key = getThumbnailKey(blob.hash, thumbnail.size, thumbnail.format);
+    try {
+      await storage.delete(key);
+    } catch (error) {
+      console.error(`Failed to remove thumbnail ${key}:`, error);
+    }
+  }
+};
+
+/**
+ * Smallest thumbnail in the format that covers the requested size,
+ * or the largest one available
+ */
+export const pickThumbnail = (
+  thumbnails: IThumbnail[],
+  size: number,
+  format: ThumbnailFormat
+): IThumbnail | null => {
+  const candidates = thumbnails
+    .filter((thumbnail) => thumbnail.format === format)
+    .sort((a, b) => a.size - b.size);
+  
+  return candidates.find((thumbnail) => thumbnail.size >= size)
+    || candidates[candidates.length - 1]
+    || null;
+};
@@ -0,0 +1,56 @@
+import { UserToken } from '../models';
+import { IUserToken, UserTokenPurpose } from '../types';
+import { generateSecureToken, hashToken } from '../utils/helpers';
+
+/**
+ * Issue a single-use token for a user.
+ * Any unused tokens with the same purpose are invalidated.
+ */
+export const issueUserToken = async (
+  userId: string,
+  purpose: UserTokenPurpose,
+  ttlMinutes: number
+): Promise<string> => {
+  const token = generateSecureToken();
+  
+  await UserToken.deleteMany({ user: userId, purpose, usedAt: null });
+  
+  await UserToken.create({
+    user: userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000)
+  });
+  
+  return token;
+};
+
+/**
+ * Consume a single-use token. Returns null if the token is unknown,
+ * expired or has already been used.
+ */
+export const consumeUserToken = async (
+  token: string,
+  purpose: UserTokenPurpose
+): Promise<IUserToken | null> => {
+  return UserToken.findOneAndUpdate(
+    {
+      tokenHash: hashToken(token),
+      purpose,
+      usedAt: null,
+      expiresAt: { $gt: new Date() }
+    },
+    { usedAt: new Date() },
+    { new: true }
+  );
+};
+
+/**
+ * Remove all unused tokens of a purpose for a user
+ */
+export const revokeUserTokens = async (
+  userId: string,
+  purpose: UserTokenPurpose
+): Promise<void> => {
+  await UserToken.deleteMany({ user: userId, purpose, usedAt: null });
+};
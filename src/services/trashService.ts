@@ -0,0 +1,110 @@
+import { File, Folder, Share } from '../models';
+import { IFile } from '../types';
+import { logAudit } from './auditService';
+import { removeFiles } from './fileService';
+
+/**
+ * Days a file stays in the trash before it is purged
+ */
+export const getTrashRetentionDays = (): number => {
+  return parseInt(process.env.TRASH_RETENTION_DAYS || '30', 10);
+};
+
+/**
+ * When a trashed file will be purged
+ */
+export const getTrashPurgeDate = (deletedAt: Date): Date => {
+  return new Date(deletedAt.getTime() + getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+};
+
+/**
+ * Move files to the trash and pause their active shares
+ */
+export const trashFiles = async (files: IFile[], userId: string): Promise<number> => {
+  const fileIds = files.filter((file) => !file.deletedAt).map((file) => file._id);
+  
+  if (fileIds.length === 0) {
+    return 0;
+  }
+  
+  await File.updateMany(
+    { _id: { $in: fileIds } },
+    { deletedAt: new Date(), deletedBy: userId }
+  );
+  await Share.updateMany(
+    { file: { $in: fileIds }, isActive: true },
+    { isActive: false, pausedByTrash: true }
+  );
+  
+  return fileIds.length;
+};
+
+/**
+ * Take a file out of the trash and reactivate the shares it had.
+ * Files whose folder was deleted meanwhile go back to the root.
+ */
+export const restoreTrashedFile = async (file: IFile): Promise<IFile> => {
+  if (file.folder && !(await Folder.exists({ _id: file.folder }))) {
+    file.folder = null;
+  }
+  
+  file.deletedAt = null;
+  file.deletedBy = null;
+  await file.save();
+  
+  await Share.updateMany(
+    { file: file._id, pausedByTrash: true },
+    { isActive: true, pausedByTrash: false }
+  );
+  
+  return file;
+};
+
+/**
+ * Permanently delete files that have been in the trash past the retention period
+ */
+export const purgeExpiredTrash = async (): Promise<number> => {
+  const cutoff = new Date(Date.now() - getTrashRetentionDays() * 24 * 60 * 60 * 1000);
+  const files = await File.find({ deletedAt: { $ne: null, $lte: cutoff } });
+  
+  if (files.length === 0) {
+    return 0;
+  }
+  
+  const purged = await removeFiles(files);
+  
+  for (const file of files) {
+    await logAudit(null, 'file_purge', {
+      fileId: file._id.toString(),
+      workspaceId: file.workspace?.toString(),
+      details: { filename: file.originalName, reason: 'trash_retention' }
+    });
+  }
+  
+  return purged;
+};
+
+/**
+ * Run the trash purge periodically in this process (TRASH_PURGE_INTERVAL_MINUTES, 0 disables)
+ */
+export const startTrashPurgeJob = (): void => {
+  const intervalMinutes = parseInt(process.env.TRASH_PURGE_INTERVAL_MINUTES || '60', 10);
+  
+  if (!intervalMinutes) {
+    return;
+  }
+  
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredTrash();
+      if (purged > 0) {
+        console.log(`🗑️  Purged ${purged} file(s) from the trash`);
+      }
+    } catch (error) {
+      console.error('Trash purge job error:', error);
+    }
+  };
+  
+  setInterval(run, intervalMinutes * 60 * 1000).unref();
+  run();
+};
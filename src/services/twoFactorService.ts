@@ -0,0 +1,76 @@
+import crypto from 'crypto';
+import { IUser } from '../types';
+import { hashToken } from '../utils/helpers';
+import { verifyTotpCode } from '../utils/totp';
+
+const RECOVERY_CODE_COUNT = 10;
+
+interface SecondFactor {
+  code?: string;
+  recoveryCode?: string;
+}
+
+/**
+ * Normalize a recovery code before hashing (case and dashes are ignored)
+ */
+const normalizeRecoveryCode = (code: string): string => {
+  return code.replace(/[^a-zA-Z0-9]/g, '').toLowerCase();
+};
+
+/**
+ * Generate a set of recovery codes and their hashes for storage
+ */
+export const generateRecoveryCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes: string[] = [];
+  
+  for (let i = 0; i < RECOVERY_CODE_COUNT; i++) {
+    const raw = crypto.randomBytes(5).toString('hex');
+    codes.push(`${raw.slice(0, 5)}-${raw.slice(5)}`);
+  }
+  
+  return {
+    codes,
+    hashes: codes.map((code) => hashToken(normalizeRecoveryCode(code)))
+  };
+};
+
+/**
+ * Verify a TOTP code or recovery code for a user with 2FA enabled.
+ * The user must be loaded with its two-factor fields selected.
+ * Used recovery codes are removed and TOTP codes cannot be replayed.
+ */
+export const verifySecondFactor = async (
+  user: IUser,
+  factor: SecondFactor
+): Promise<boolean> => {
+  if (!user.twoFactorEnabled || !user.twoFactorSecret) {
+    return false;
+  }
+  
+  if (factor.code) {
+    const step = verifyTotpCode(user.twoFactorSecret, factor.code);
+    
+    if (step === null || (user.twoFactorLastUsedStep !== undefined && step <= user.twoFactorLastUsedStep)) {
+      return false;
+    }
+    
+    user.twoFactorLastUsedStep = step;
+    await user.save();
+    return true;
+  }
+  
+  if (factor.recoveryCode) {
+    const hash = hashToken(normalizeRecoveryCode(factor.recoveryCode));
+    const codes = user.twoFactorRecoveryCodes || [];
+    
+    if (!codes.includes(hash)) {
+      return false;
+    }
+    
+    user.twoFactorRecoveryCodes = codes.filter((stored) => stored !== hash);
+    await user.save();
+    return true;
+  }
+  
+  return false;
+};
@@ -0,0 +1,460 @@
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { isValidObjectId, Types } from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import { File, Folder, UploadSession } from '../models';
+import { IFile, IFileBlob, IUploadSession } from '../types';
+import { AppError } from '../middleware/errorHandler';
+import { getAllowedTypes, uploadDir } from '../config/multer';
+import { detectFileType, hasKnownSignature } from '../utils/fileType';
+import { CompressionResult, compressFile } from './compressionService';
+import { getBlobFields, releaseBlobs, storeBlob } from './blobService';
+import { assertStorageAvailable, releaseStorage, reserveStorage } from './quotaService';
+import { logAudit } from './auditService';
+import { logQuarantine } from './scanService';
+import { getFileAccess, getWorkspaceRole, canEditWorkspace } from './workspaceService';
+
+export interface UploadTarget {
+  workspace: Types.ObjectId | null;
+  folder: Types.ObjectId | null;
+}
+
+export interface StoredUpload {
+  originalName: string;
+  mimeType: string;
+  size: number;
+  path: string; // Local file, consumed when its content is stored
+}
+
+interface RequestContext {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+interface CreateUploadSessionOptions {
+  length: number;
+  originalName: string;
+  mimeType?: string;
+  workspaceId?: string;
+  folderId?: string;
+}
+
+// Partial tus uploads live next to the regular uploads
+const tusDir = path.join(uploadDir, 'tus');
+
+// Uploads currently receiving a PATCH in this process
+const activeUploads = new Set<string>();
+
+/**
+ * Largest file accepted through resumable uploads (default 10GB)
+ */
+export const getTusMaxSize = (): number => {
+  return parseInt(process.env.TUS_MAX_SIZE || '10737418240', 10);
+};
+
+/**
+ * Hours an unfinished resumable upload is kept after its last chunk
+ */
+const getTusExpirationHours = (): number => {
+  return parseInt(process.env.TUS_UPLOAD_EXPIRATION_HOURS || '24', 10);
+};
+
+const getUploadExpiry = (): Date => {
+  return new Date(Date.now() + getTusExpirationHours() * 60 * 60 * 1000);
+};
+
+/**
+ * Check the user may upload to the requested workspace and/or folder.
+ * The folder decides the space when one is given.
+ */
+export const resolveUploadTarget = async (
+  userId: string,
+  workspaceId?: string,
+  folderId?: string
+): Promise<UploadTarget> => {
+  if (folderId) {
+    const folder = isValidObjectId(folderId) ? await Folder.findById(folderId) : null;
+    const access = folder ? await getFileAccess(folder, userId) : null;
+    
+    if (!folder || !access) {
+      throw new AppError('Folder not found', 404);
+    }
+    
+    if (access !== 'manage') {
+      throw new AppError('You do not have permission to upload to this folder', 403);
+    }
+    
+    if (workspaceId && folder.workspace?.toString() !== workspaceId) {
+      throw new AppError('Folder does not belong to this workspace', 400);
+    }
+    
+    return { workspace: folder.workspace || null, folder: folder._id };
+  }
+  
+  if (workspaceId) {
+    const role = await getWorkspaceRole(workspaceId, userId);
+    
+    if (!canEditWorkspace(role)) {
+      throw new AppError('You do not have permission to upload to this workspace', 403);
+    }
+    
+    return { workspace: new Types.ObjectId(workspaceId), folder: null };
+  }
+  
+  return { workspace: null, folder: null };
+};
+
+/**
+ * Check that an upload's content is what its extension claims and an
+ * allowed type. Returns the upload with the detected MIME type in place of
+ * the client's; mismatches are audited and refused.
+ */
+export const verifyUploadContent = async (
+  upload: StoredUpload,
+  userId: string,
+  context: RequestContext = {}
+): Promise<StoredUpload> => {
+  const extension = path.extname(upload.originalName).toLowerCase();
+  const detected = await detectFileType(upload.path, extension);
+  
+  // Content without a known signature passes only for types that have none
+  const matchesExtension = detected
+    ? detected.extensions.includes(extension)
+    : !hasKnownSignature(extension);
+  
+  if (matchesExtension && getAllowedTypes().includes(extension)) {
+    return { ...upload, mimeType: detected?.mimeType || 'application/octet-stream' };
+  }
+  
+  await logAudit(userId, 'file_upload_rejected', {
+    details: {
+      filename: upload.originalName,
+      size: upload.size,
+      declaredMimeType: upload.mimeType,
+      detectedMimeType: detected?.mimeType || null
+    },
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent
+  });
+  
+  throw new AppError(`The content of ${upload.originalName} does not match its file type`, 400);
+};
+
+/**
+ * Charge the upload to the user's quota, compress it, scan and store its
+ * content (once per distinct content), create its record and log the upload.
+ * The local file is left in place when the quota is exceeded. If storing
+ * fails, the charge and the blob reference are given back.
+ */
+export const storeUploadedFile = async (
+  upload: StoredUpload,
+  userId: string,
+  target: UploadTarget,
+  context: RequestContext = {}
+): Promise<IFile> => {
+  await reserveStorage(userId, upload.size);
+  
+  let charged = upload.size;
+  let blob: IFileBlob | undefined;
+  let compressionResult: CompressionResult;
+  let file: IFile;
+  
+  try {
+    // Compress file if applicable
+    compressionResult = await compressFile(upload.path, upload.mimeType, upload.originalName);
+    blob = await storeBlob(upload.path, upload.mimeType);
+    
+    // Usage counts the stored (compressed) size
+    await releaseStorage(userId, upload.size - blob.size);
+    charged = blob.size;
+    
+    file = await File.create({
+      ...getBlobFields(blob),
+      originalName: upload.originalName,
+      mimeType: upload.mimeType,
+      owner: userId,
+      workspace: target.workspace,
+      folder: target.folder,
+      isCompressed: compressionResult.success,
+      originalSize: compressionResult.success ? compressionResult.originalSize : undefined
+    });
+  } catch (error) {
+    await releaseStorage(userId, charged);
+    if (blob) {
+      await releaseBlobs([blob._id]);
+    }
+    throw error;
+  }
+  
+  await logAudit(userId, 'file_upload', {
+    fileId: file._id.toString(),
+    workspaceId: target.workspace?.toString(),
+    details: {
+      filename: upload.originalName,
+      size: upload.size,
+      compressed: compressionResult.success,
+      compressionRatio: compressionResult.compressionRatio,
+      deduplicated: blob.refCount > 1
+    },
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent
+  });
+  
+  if (file.scanStatus === 'infected') {
+    await logQuarantine(file, userId, blob.scanSignature, context);
+  }
+  
+  return file;
+};
+
+/**
+ * Store a completed resumable upload like a regular upload
+ */
+const completeUploadSession = async (
+  session: IUploadSession,
+  context: RequestContext
+): Promise<IUploadSession> => {
+  const userId = session.owner.toString();
+  
+  // Permissions or free space may have changed while the upload was running,
+  // and the content can only be checked once it is all here
+  let file: IFile;
+  try {
+    const target = await resolveUploadTarget(
+      userId,
+      session.workspace?.toString(),
+      session.folder?.toString()
+    );
+    
+    const upload = await verifyUploadContent(
+      {
+        originalName: session.originalName,
+        mimeType: session.mimeType,
+        size: session.length,
+        path: session.path
+      },
+      userId,
+      context
+    );
+    
+    file = await storeUploadedFile(upload, userId, target, context);
+  } catch (error) {
+    fs.rmSync(session.path, { force: true });
+    await session.deleteOne();
+    throw error;
+  }
+  
+  session.file = file._id;
+  await session.save();
+  
+  return session;
+};
+
+/**
+ * Start a resumable upload. Zero-length uploads complete immediately.
+ */
+export const createUploadSession = async (
+  userId: string,
+  options: CreateUploadSessionOptions,
+  context: RequestContext = {}
+): Promise<IUploadSession> => {
+  if (options.length > getTusMaxSize()) {
+    throw new AppError('Upload exceeds the maximum size', 413);
+  }
+  
+  const ext = path.extname(options.originalName).toLowerCase();
+  const allowedTypes = getAllowedTypes();
+  
+  if (!allowedTypes.includes(ext)) {
+    throw new AppError(`File type ${ext} is not allowed. Allowed types: ${allowedTypes.join(', ')}`, 400);
+  }
+  
+  const target = await resolveUploadTarget(userId, options.workspaceId, options.folderId);
+  
+  // Refuse up front rather than after the client has sent every chunk
+  await assertStorageAvailable(userId, options.length);
+  
+  if (!fs.existsSync(tusDir)) {
+    fs.mkdirSync(tusDir, { recursive: true });
+  }
+  
+  const uploadPath = path.join(tusDir, uuidv4());
+  fs.writeFileSync(uploadPath, '');
+  
+  const session = await UploadSession.create({
+    owner: userId,
+    workspace: target.workspace,
+    folder: target.folder,
+    originalName: options.originalName,
+    mimeType: options.mimeType || 'application/octet-stream',
+    length: options.length,
+    path: uploadPath,
+    expiresAt: getUploadExpiry()
+  });
+  
+  if (options.length === 0) {
+    return completeUploadSession(session, context);
+  }
+  
+  return session;
+};
+
+/**
+ * Find a user's upload session. Expired sessions are reported as gone.
+ */
+export const findUploadSession = async (
+  id: string,
+  userId: string
+): Promise<IUploadSession> => {
+  const session = isValidObjectId(id)
+    ? await UploadSession.findOne({ _id: id, owner: userId })
+    : null;
+  
+  if (!session) {
+    throw new AppError('Upload not found', 404);
+  }
+  
+  if (session.expiresAt <= new Date()) {
+    throw new AppError('Upload has expired', 410);
+  }
+  
+  return session;
+};
+
+/**
+ * Append a chunk at the given offset. The stored offset is taken from the
+ * partial file, so an interrupted chunk still counts the bytes that arrived.
+ */
+export const appendUploadChunk = async (
+  session: IUploadSession,
+  offset: number,
+  chunk: Readable,
+  context: RequestContext = {}
+): Promise<IUploadSession> => {
+  const id = session._id.toString();
+  
+  if (session.file) {
+    throw new AppError('Upload is already complete', 409);
+  }
+  
+  if (offset !== session.offset) {
+    throw new AppError(`Upload-Offset must be ${session.offset}`, 409);
+  }
+  
+  if (activeUploads.has(id)) {
+    throw new AppError('Upload is already receiving data', 423);
+  }
+  
+  activeUploads.add(id);
+  
+  try {
+    let received = 0;
+    let rejected: AppError | null = null;
+    const remaining = session.length - session.offset;
+    
+    try {
+      await pipeline(
+        chunk,
+        async function* (source) {
+          for await (const data of source) {
+            received += data.length;
+            if (received > remaining) {
+              throw new AppError('Chunk exceeds the upload length', 413);
+            }
+            yield data;
+          }
+        },
+        fs.createWriteStream(session.path, { flags: 'a' })
+      );
+    } catch (error) {
+      if (error instanceof AppError) {
+        rejected = error;
+      } else {
+        // Client went away mid-chunk; keep what was written
+        console.error('Upload chunk interrupted:', error);
+      }
+    }
+    
+    session.offset = fs.statSync(session.path).size;
+    session.expiresAt = getUploadExpiry();
+    await session.save();
+    
+    if (rejected) {
+      throw rejected;
+    }
+    
+    if (session.offset === session.length) {
+      return completeUploadSession(session, context);
+    }
+    
+    return session;
+  } finally {
+    activeUploads.delete(id);
+  }
+};
+
+/**
+ * Cancel an unfinished upload and delete its data
+ */
+export const terminateUploadSession = async (session: IUploadSession): Promise<void> => {
+  if (activeUploads.has(session._id.toString())) {
+    throw new AppError('Upload is receiving data', 423);
+  }
+  
+  if (!session.file && fs.existsSync(session.path)) {
+    fs.unlinkSync(session.path);
+  }
+  
+  await session.deleteOne();
+};
+
+/**
+ * Delete expired upload sessions and their partial data
+ */
+export const purgeExpiredUploads = async (): Promise<number> => {
+  const sessions = await UploadSession.find({ expiresAt: { $lte: new Date() } });
+  
+  for (const session of sessions) {
+    if (activeUploads.has(session._id.toString())) {
+      continue;
+    }
+    
+    try {
+      if (!session.file && fs.existsSync(session.path)) {
+        fs.unlinkSync(session.path);
+      }
+      await session.deleteOne();
+    } catch (error) {
+      console.error(`Failed to remove upload ${session._id}:`, error);
+    }
+  }
+  
+  return sessions.length;
+};
+
+/**
+ * Clean up expired uploads periodically in this process (TUS_CLEANUP_INTERVAL_MINUTES, 0 disables)
+ */
+export const startUploadCleanupJob = (): void => {
+  const intervalMinutes = parseInt(process.env.TUS_CLEANUP_INTERVAL_MINUTES || '60', 10);
+  
+  if (!intervalMinutes) {
+    return;
+  }
+  
+  const run = async () => {
+    try {
+      const purged = await purgeExpiredUploads();
+      if (purged > 0) {
+        console.log(`🧹 Removed ${purged} expired upload(s)`);
+      }
+    } catch (error) {
+      console.error('Upload cleanup job error:', error);
+    }
+  };
+  
+  setInterval(run, intervalMinutes * 60 * 1000).unref();
+  run();
+};
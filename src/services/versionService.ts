@@ -0,0 +1,187 @@
+import { Types } from 'mongoose';
+import { FileVersion } from '../models';
+import { IFile, IFileBlob, IFileVersion } from '../types';
+import { compressFile } from './compressionService';
+import { BlobFields, acquireBlob, getBlobFields, releaseBlobs, storeBlob } from './blobService';
+import { releaseStorage, releaseStorageCharges, reserveStorage } from './quotaService';
+import { logQuarantine } from './scanService';
+import { StoredUpload } from './uploadService';
+
+export interface VersionContent extends BlobFields {
+  originalName: string;
+  mimeType: string;
+  isCompressed: boolean;
+  originalSize?: number;
+}
+
+/**
+ * Number of previous versions kept per file
+ */
+export const getFileVersionLimit = (): number => {
+  return parseInt(process.env.FILE_VERSION_LIMIT || '10', 10);
+};
+
+/**
+ * Drop the oldest versions of a file beyond the retention limit
+ */
+export const pruneFileVersions = async (fileId: Types.ObjectId): Promise<number> => {
+  const stale = await FileVersion.find({ file: fileId })
+    .sort({ version: -1 })
+    .skip(getFileVersionLimit());
+  
+  if (stale.length === 0) {
+    return 0;
+  }
+  
+  await releaseBlobs(stale.map((version) => version.blob));
+  await releaseStorageCharges(stale.map((version) => ({
+    userId: version.uploadedBy,
+    bytes: version.size
+  })));
+  await FileVersion.deleteMany({ _id: { $in: stale.map((version) => version._id) } });
+  
+  return stale.length;
+};
+
+/**
+ * Make new content the current version of a file, keeping the
+ * previous content in its version history. Shares follow automatically.
+ * The file's blob reference moves to the archived version.
+ */
+export const replaceFileContent = async (
+  file: IFile,
+  content: VersionContent,
+  userId: string
+): Promise<IFile> => {
+  await FileVersion.create({
+    file: file._id,
+    version: file.version,
+    filename: file.filename,
+    originalName: file.originalName,
+    mimeType: file.mimeType,
+    size: file.size,
+    blob: file.blob,
+    hash: file.hash,
+    storage: file.storage,
+    scanStatus: file.scanStatus,
+    isCompressed: file.isCompressed,
+    originalSize: file.originalSize,
+    uploadedBy: file.modifiedBy || file.owner,
+    uploadedAt: file.modifiedAt || file.createdAt
+  });
+  
+  file.set({
+    ...content,
+    originalSize: content.originalSize,
+    version: file.version + 1,
+    modifiedBy: userId,
+    modifiedAt: new Date()
+  });
+  await file.save();
+  
+  await pruneFileVersions(file._id);
+  
+  return file;
+};
+
+/**
+ * Charge an uploaded file to the user's quota, compress it, scan and store
+ * its content and make it the current version. If storing fails, the charge
+ * and the blob reference are given back.
+ */
+export const storeNewVersion = async (
+  file: IFile,
+  upload: StoredUpload,
+  userId: string,
+  context: { ipAddress?: string; userAgent?: string } = {}
+): Promise<IFile> => {
+  await reserveStorage(userId, upload.size);
+  
+  let charged = upload.size;
+  let blob: IFileBlob | undefined;
+  let updated: IFile;
+  
+  try {
+    const compressionResult = await compressFile(upload.path, upload.mimeType, upload.originalName);
+    blob = await storeBlob(upload.path, upload.mimeType);
+    
+    await releaseStorage(userId, upload.size - blob.size);
+    charged = blob.size;
+    
+    updated = await replaceFileContent(
+      file,
+      {
+        ...getBlobFields(blob),
+        originalName: upload.originalName,
+        mimeType: upload.mimeType,
+        isCompressed: compressionResult.success,
+        originalSize: compressionResult.success ? compressionResult.originalSize : undefined
+      },
+      userId
+    );
+  } catch (error) {
+    await releaseStorage(userId, charged);
+    if (blob) {
+      await releaseBlobs([blob._id]);
+    }
+    throw error;
+  }
+  
+  if (updated.scanStatus === 'infected') {
+    await logQuarantine(updated, userId, blob.scanSignature, context);
+  }
+  
+  return updated;
+};
+
+/**
+ * Restore a previous version as a new current version. The restored
+ * version stays in the history and shares its content with the file,
+ * but counts again towards the restoring user's quota.
+ */
+export const restoreFileVersion = async (
+  file: IFile,
+  version: IFileVersion,
+  userId: string
+): Promise<IFile> => {
+  await reserveStorage(userId, version.size);
+  
+  const blob = await acquireBlob(version.blob);
+  
+  if (!blob) {
+    await releaseStorage(userId, version.size);
+    throw new Error(`Blob ${version.blob} of version ${version._id} not found`);
+  }
+  
+  try {
+    return await replaceFileContent(
+      file,
+      {
+        ...getBlobFields(blob),
+        originalName: version.originalName,
+        mimeType: version.mimeType,
+        isCompressed: version.isCompressed,
+        originalSize: version.originalSize
+      },
+      userId
+    );
+  } catch (error) {
+    await releaseStorage(userId, version.size);
+    await releaseBlobs([blob._id]);
+    throw error;
+  }
+};
+
+/**
+ * Delete all previous versions of the given files
+ */
+export const removeFileVersions = async (fileIds: Types.ObjectId[]): Promise<void> => {
+  const versions = await FileVersion.find({ file: { $in: fileIds } }).select('blob size uploadedBy');
+  
+  await releaseBlobs(versions.map((version) => version.blob));
+  await releaseStorageCharges(versions.map((version) => ({
+    userId: version.uploadedBy,
+    bytes: version.size
+  })));
+  await FileVersion.deleteMany({ file: { $in: fileIds } });
+};
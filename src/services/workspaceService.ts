@@ -0,0 +1,98 @@
+import { isValidObjectId, Types } from 'mongoose';
+import { File, Folder, Workspace } from '../models';
+import { IWorkspace, WorkspaceRole } from '../types';
+import { removeFiles } from './fileService';
+
+// 'manage' allows delete/share/audit, 'read' allows view/download
+export type FileAccess = 'manage' | 'read';
+
+/**
+ * Get a member's role from a loaded workspace
+ */
+export const getMemberRole = (workspace: IWorkspace, userId: string): WorkspaceRole | null => {
+  const member = workspace.members.find((m) => m.user.toString() === userId);
+  return member ? member.role : null;
+};
+
+/**
+ * Look up a user's role in a workspace. Returns null for non-members.
+ */
+export const getWorkspaceRole = async (
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceRole | null> => {
+  if (!isValidObjectId(workspaceId)) {
+    return null;
+  }
+  
+  const workspace = await Workspace.findOne(
+    { _id: workspaceId, 'members.user': userId },
+    { members: 1 }
+  );
+  
+  return workspace ? getMemberRole(workspace, userId) : null;
+};
+
+/**
+ * Whether a role may add and manage files
+ */
+export const canEditWorkspace = (role: WorkspaceRole | null): boolean => {
+  return role === 'owner' || role === 'editor';
+};
+
+/**
+ * Resolve what a user may do with a file or folder through ownership or
+ * workspace membership. Direct shares are checked separately.
+ */
+export const getFileAccess = async (
+  file: { owner: Types.ObjectId; workspace?: Types.ObjectId | null },
+  userId: string
+): Promise<FileAccess | null> => {
+  if (file.workspace) {
+    const role = await getWorkspaceRole(file.workspace.toString(), userId);
+    if (!role) return null;
+    return canEditWorkspace(role) ? 'manage' : 'read';
+  }
+  
+  // owner may be populated; ObjectId._id returns itself
+  return file.owner._id.toString() === userId ? 'manage' : null;
+};
+
+/**
+ * Delete every file and folder in a workspace, including files on disk and shares
+ */
+export const deleteWorkspaceFiles = async (workspaceId: string): Promise<number> => {
+  const files = await File.find({ workspace: workspaceId });
+  
+  const deleted = await removeFiles(files);
+  await Folder.deleteMany({ workspace: workspaceId });
+  
+  return deleted;
+};
+
+/**
+ * Remove a user from all workspaces. Workspaces left without members are
+ * deleted; workspaces left without an owner promote their longest-standing member.
+ */
+export const removeUserFromWorkspaces = async (userId: string): Promise<void> => {
+  const workspaces = await Workspace.find({ 'members.user': userId });
+  
+  for (const workspace of workspaces) {
+    workspace.members = workspace.members.filter((m) => m.user.toString() !== userId);
+    
+    if (workspace.members.length === 0) {
+      await deleteWorkspaceFiles(workspace._id.toString());
+      await workspace.deleteOne();
+      continue;
+    }
+    
+    if (!workspace.members.some((m) => m.role === 'owner')) {
+      const [successor] = [...workspace.members].sort(
+        (a, b) => a.addedAt.getTime() - b.addedAt.getTime()
+      );
+      successor.role = 'owner';
+    }
+    
+    await workspace.save();
+  }
+};
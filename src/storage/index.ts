@@ -0,0 +1,41 @@
+import { StorageDriver, StorageDriverName } from '../types';
+import { uploadDir } from '../config/multer';
+import { createLocalDriver } from './localDriver';
+import { createS3Driver } from './s3Driver';
+
+const drivers = new Map<StorageDriverName, StorageDriver>();
+
+/**
+ * Whether a value names a supported storage driver
+ */
+export const isStorageDriverName = (value: unknown): value is StorageDriverName => {
+  return value === 'local' || value === 's3';
+};
+
+/**
+ * Driver used for new uploads (STORAGE_DRIVER, default local)
+ */
+export const getDefaultStorageName = (): StorageDriverName => {
+  const name = process.env.STORAGE_DRIVER || 'local';
+  
+  if (!isStorageDriverName(name)) {
+    throw new Error(`Unknown STORAGE_DRIVER: ${name}`);
+  }
+  
+  return name;
+};
+
+/**
+ * Get a storage driver by name, or the default driver for new uploads.
+ * Existing files are read through the driver recorded on them.
+ */
+export const getStorage = (name: StorageDriverName = getDefaultStorageName()): StorageDriver => {
+  let driver = drivers.get(name);
+  
+  if (!driver) {
+    driver = name === 's3' ? createS3Driver() : createLocalDriver(uploadDir);
+    drivers.set(name, driver);
+  }
+  
+  return driver;
+};
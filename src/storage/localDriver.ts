@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import { StorageDriver } from '../types';
+
+/**
+ * Move a file, falling back to copy + delete across filesystems
+ */
+const moveFile = async (source: string, target: string): Promise<void> => {
+  try {
+    await fs.promises.rename(source, target);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EXDEV') {
+      throw error;
+    }
+    await fs.promises.copyFile(source, target);
+    await fs.promises.unlink(source);
+  }
+};
+
+/**
+ * Store objects as files below a root directory
+ */
+export const createLocalDriver = (root: string): StorageDriver => {
+  const rootPath = path.resolve(root);
+  
+  const resolveKey = (key: string): string => {
+    const filePath = path.resolve(rootPath, key);
+    
+    if (!filePath.startsWith(rootPath + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    
+    return filePath;
+  };
+  
+  return {
+    name: 'local',
+    
+    async put(key, source) {
+      const target = resolveKey(key);
+      await fs.promises.mkdir(path.dirname(target), { recursive: true });
+      
+      if (typeof source === 'string') {
+        // Multer already writes into the root, so this is usually a no-op
+        if (path.resolve(source) !== target) {
+          await moveFile(source, target);
+        }
+        return;
+      }
+      
+      await pipeline(source, fs.createWriteStream(target));
+    },
+    
+    async getStream(key, range) {
+      const filePath = resolveKey(key);
+      await fs.promises.access(filePath);
+      return fs.createReadStream(filePath, range);
+    },
+    
+    async delete(key) {
+      await fs.promises.rm(resolveKey(key), { force: true });
+    },
+    
+    async stat(key) {
+      try {
+        const stats = await fs.promises.stat(resolveKey(key));
+        return { size: stats.size };
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return null;
+        }
+        throw error;
+      }
+    }
+  };
+};
@@ -0,0 +1,116 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import {
+  S3Client,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand
+} from '@aws-sdk/client-s3';
+import { Upload } from '@aws-sdk/lib-storage';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { StorageDriver } from '../types';
+
+/**
+ * Quote a filename for Content-Disposition
+ */
+const contentDisposition = (type: 'inline' | 'attachment', filename?: string): string => {
+  return filename ? `${type}; filename*=UTF-8''${encodeURIComponent(filename)}` : type;
+};
+
+/**
+ * Store objects in an S3-compatible bucket (AWS S3, MinIO, ...)
+ */
+export const createS3Driver = (): StorageDriver => {
+  const bucket = process.env.S3_BUCKET;
+  
+  if (!bucket) {
+    throw new Error('S3_BUCKET is required for the s3 storage driver');
+  }
+  
+  const endpoint = process.env.S3_ENDPOINT || undefined;
+  const prefix = process.env.S3_PREFIX || '';
+  const signedUrlExpires = parseInt(process.env.S3_SIGNED_URL_EXPIRES_SECONDS || '300', 10);
+  
+  const client = new S3Client({
+    region: process.env.S3_REGION || 'us-east-1',
+    endpoint,
+    // MinIO and most self-hosted services need path-style URLs
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE
+      ? process.env.S3_FORCE_PATH_STYLE === 'true'
+      : Boolean(endpoint),
+    credentials: process.env.S3_ACCESS_KEY_ID && process.env.S3_SECRET_ACCESS_KEY
+      ? {
+          accessKeyId: process.env.S3_ACCESS_KEY_ID,
+          secretAccessKey: process.env.S3_SECRET_ACCESS_KEY
+        }
+      : undefined
+  });
+  
+  const objectKey = (key: string): string => `${prefix}${key}`;
+  
+  return {
+    name: 's3',
+    
+    async put(key, source, options = {}) {
+      const upload = new Upload({
+        client,
+        params: {
+          Bucket: bucket,
+          Key: objectKey(key),
+          Body: typeof source === 'string' ? fs.createReadStream(source) : source,
+          ContentType: options.contentType
+        }
+      });
+      
+      await upload.done();
+      
+      if (typeof source === 'string') {
+        await fs.promises.rm(source, { force: true });
+      }
+    },
+    
+    async getStream(key, range) {
+      const result = await client.send(new GetObjectCommand({
+        Bucket: bucket,
+        Key: objectKey(key),
+        Range: range ? `bytes=${range.start}-${range.end}` : undefined
+      }));
+      
+      return result.Body as Readable;
+    },
+    
+    async delete(key) {
+      await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: objectKey(key) }));
+    },
+    
+    async stat(key) {
+      try {
+        const result = await client.send(new HeadObjectCommand({
+          Bucket: bucket,
+          Key: objectKey(key)
+        }));
+        return { size: result.ContentLength || 0 };
+      } catch (error) {
+        const status = (error as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+        if (status === 404) {
+          return null;
+        }
+        throw error;
+      }
+    },
+    
+    async getSignedUrl(key, options = {}) {
+      const command = new GetObjectCommand({
+        Bucket: bucket,
+        Key: objectKey(key),
+        ResponseContentType: options.contentType,
+        ResponseContentDisposition: contentDisposition(
+          options.inline ? 'inline' : 'attachment',
+          options.filename
+        )
+      });
+      
+      return getSignedUrl(client, command, { expiresIn: options.expiresIn || signedUrlExpires });
+    }
+  };
+};
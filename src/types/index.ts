@@ -1,29 +1,324 @@
 import { Request } from 'express';
 import { Document, Types } from 'mongoose';
+import { Readable } from 'stream';
 
 // User Types
+export type UserRole = 'user' | 'admin';
+
+// Who can find the user in search: anyone, only their contacts, or only by exact email
+export type Discoverability = 'everyone' | 'contacts' | 'email';
+
 export interface IUser extends Document {
   _id: Types.ObjectId;
   email: string;
   password: string;
   name: string;
+  searchName: string; // Lowercased name for prefix search
+  role: UserRole;
+  discoverability: Discoverability;
+  isDisabled: boolean;
+  disabledAt?: Date | null;
+  disabledReason?: string;
+  passwordResetRequired: boolean;
+  passwordChangedAt?: Date;
+  hasPassword: boolean; // False for SSO-provisioned accounts until they set a password
+  emailVerified: boolean;
+  emailVerifiedAt?: Date;
+  twoFactorEnabled: boolean;
+  twoFactorSecret?: string;
+  twoFactorPendingSecret?: string;
+  twoFactorRecoveryCodes?: string[];
+  twoFactorLastUsedStep?: number;
+  oidcIssuer?: string;
+  oidcSubject?: string;
+  deletionRequestedAt?: Date | null;
+  deletionScheduledFor?: Date | null;
+  avatarKey?: string | null;
+  avatarStorage: StorageDriverName; // Backend holding the avatar images
+  avatarUrl?: string | null;
+  avatarSmallUrl?: string | null;
+  storageQuota?: number | null; // Admin override in bytes; null uses the default
+  storageUsed: number; // Bytes of files and versions uploaded by the user
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
 }
 
+// Session Types
+export interface ISession extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  refreshTokenHash: string;
+  previousTokenHash?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  lastSeenAt: Date;
+  rotatedAt?: Date; // Last refresh token rotation
+  expiresAt: Date;
+  revokedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// One-time token types (password reset, email verification, SSO handoff)
+export type UserTokenPurpose = 'password_reset' | 'email_verification' | 'oidc_login';
+
+export interface IUserToken extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  purpose: UserTokenPurpose;
+  tokenHash: string;
+  expiresAt: Date;
+  usedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Personal Access Token Types
+export const TOKEN_SCOPES = [
+  'files:read',
+  'files:write',
+  'shares:read',
+  'shares:write',
+  'audit:read',
+  'workspaces:read',
+  'workspaces:write',
+  'profile:read',
+  'users:read'
+] as const;
+
+export type TokenScope = typeof TOKEN_SCOPES[number];
+
+export interface IAccessToken extends Document {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  name: string;
+  tokenHash: string;
+  tokenPrefix: string;
+  scopes: TokenScope[];
+  expiresAt?: Date | null;
+  lastUsedAt?: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string;
+}
+
+// OIDC Types
+export interface IOidcLoginState extends Document {
+  _id: Types.ObjectId;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  returnTo?: string;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Rate Limiting Types
+export interface IRateLimit extends Document {
+  key: string;
+  value: Record<string, number>;
+  expiresAt: Date;
+}
+
+export interface ILoginThrottle extends Document {
+  _id: Types.ObjectId;
+  key: string;
+  failures: number;
+  lockedUntil?: Date | null;
+  lastFailureAt?: Date;
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
 // File Types
+export const MAX_TAGS_PER_FILE = 20;
+export const MAX_TAG_LENGTH = 50;
+export const MAX_METADATA_KEYS = 20;
+export const MAX_METADATA_VALUE_LENGTH = 500;
+
+// Metadata map keys cannot contain dots or start with $ in MongoDB
+export const METADATA_KEY_PATTERN = /^[A-Za-z0-9_-]{1,50}$/;
+
 export interface IFile extends Document {
   _id: Types.ObjectId;
   filename: string;
   originalName: string;
+  mimeType: string; // Detected from the content, not taken from the client
+  size: number;
+  blob: Types.ObjectId; // Shared content; `filename`, `storage`, `thumbnails` and `scanStatus` mirror it for reads
+  hash: string; // SHA-256 of the stored bytes
+  storage: StorageDriverName; // Backend holding the bytes, stored under `filename`
+  thumbnails: IThumbnail[];
+  scanStatus: ScanStatus; // Only clean files can be downloaded or shared
+  contentText?: string; // Extracted for search; not selected by default
+  tags: string[]; // Normalized to lowercase
+  metadata: Map<string, string>; // Free-form key/value pairs
+  owner: Types.ObjectId; // Uploader
+  workspace?: Types.ObjectId | null; // Set when the file belongs to a workspace
+  folder?: Types.ObjectId | null; // null for the root of the space
+  isCompressed: boolean;
+  originalSize?: number;
+  version: number; // Current version number, starting at 1
+  modifiedBy?: Types.ObjectId | null; // Uploader of the current version when it is not the first
+  modifiedAt?: Date | null;
+  deletedAt?: Date | null; // Set while the file is in the trash
+  deletedBy?: Types.ObjectId | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// File Version Types (previous versions; the current one lives on the file)
+export interface IFileVersion extends Document {
+  _id: Types.ObjectId;
+  file: Types.ObjectId;
+  version: number;
+  filename: string;
+  originalName: string;
   mimeType: string;
   size: number;
-  path: string;
-  url: string;
-  owner: Types.ObjectId;
+  blob: Types.ObjectId;
+  hash: string;
+  storage: StorageDriverName;
+  scanStatus: ScanStatus;
   isCompressed: boolean;
   originalSize?: number;
+  uploadedBy: Types.ObjectId;
+  uploadedAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Content-addressed blobs, stored once and shared by files and versions
+export interface IFileBlob extends Document {
+  _id: Types.ObjectId;
+  hash: string; // SHA-256, hex
+  key: string; // Storage key
+  storage: StorageDriverName;
+  size: number;
+  refCount: number; // Files and versions pointing at the blob
+  thumbnails: IThumbnail[]; // Image previews, stored next to the blob
+  scanStatus: ScanStatus;
+  scanSignature?: string; // Malware found by the scanner
+  scannedAt?: Date;
+  contentText?: string; // Searchable text of documents, mirrored onto files
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type ThumbnailFormat = 'webp' | 'jpeg';
+
+export interface IThumbnail {
+  size: number; // Bounding box in pixels
+  format: ThumbnailFormat;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+// Malware Scanning Types
+export type ScanStatus = 'pending' | 'clean' | 'infected' | 'error';
+
+export type MalwareScannerName = 'none' | 'clamd';
+
+export interface ScanResult {
+  infected: boolean;
+  signature?: string; // Name of the malware found
+}
+
+export interface MalwareScanner {
+  name: MalwareScannerName;
+  /** Scan content; rejects when no verdict could be reached */
+  scan(source: Readable): Promise<ScanResult>;
+}
+
+// Storage Types
+export type StorageDriverName = 'local' | 's3';
+
+export interface StorageRange {
+  start: number;
+  end: number; // Inclusive
+}
+
+export interface SignedUrlOptions {
+  expiresIn?: number; // Seconds
+  filename?: string;
+  contentType?: string;
+  inline?: boolean;
+}
+
+export interface StorageDriver {
+  name: StorageDriverName;
+  /** Store a local file (moved or uploaded, then removed) or a stream under key */
+  put(key: string, source: string | Readable, options?: { contentType?: string }): Promise<void>;
+  getStream(key: string, range?: StorageRange): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  /** Returns null when the object does not exist */
+  stat(key: string): Promise<{ size: number } | null>;
+  getSignedUrl?(key: string, options?: SignedUrlOptions): Promise<string>;
+}
+
+// Contact Types
+export interface IContact extends Document {
+  _id: Types.ObjectId;
+  owner: Types.ObjectId;
+  contact: Types.ObjectId;
+  shareCount: number;
+  lastInteractionAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Folder Types
+export interface IFolder extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  owner: Types.ObjectId; // Creator
+  workspace?: Types.ObjectId | null;
+  parent?: Types.ObjectId | null;
+  ancestors: Types.ObjectId[]; // Root first, used for breadcrumbs and subtree queries
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Resumable (tus) upload Types
+export interface IUploadSession extends Document {
+  _id: Types.ObjectId;
+  owner: Types.ObjectId;
+  workspace?: Types.ObjectId | null;
+  folder?: Types.ObjectId | null;
+  originalName: string;
+  mimeType: string;
+  length: number; // Total size announced by the client
+  offset: number; // Bytes received so far
+  path: string; // Partial file on disk
+  file?: Types.ObjectId | null; // Set once the upload is complete
+  expiresAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Workspace Types
+export type WorkspaceRole = 'owner' | 'editor' | 'viewer';
+
+export interface IWorkspaceMember {
+  user: Types.ObjectId;
+  role: WorkspaceRole;
+  addedAt: Date;
+}
+
+export interface IWorkspace extends Document {
+  _id: Types.ObjectId;
+  name: string;
+  createdBy: Types.ObjectId;
+  members: IWorkspaceMember[];
   createdAt: Date;
   updatedAt: Date;
 }
@@ -36,12 +331,14 @@ export interface IShare extends Document {
   _id: Types.ObjectId;
   file: Types.ObjectId;
   owner: Types.ObjectId;
+  workspace?: Types.ObjectId | null; // Copied from the file
   shareType: ShareType;
   sharedWith?: Types.ObjectId; // For user shares
   shareLink?: string; // For link shares
   permission: Permission;
   expiresAt?: Date;
   isActive: boolean;
+  pausedByTrash: boolean; // Deactivated because the file was trashed; reactivated on restore
   createdAt: Date;
   updatedAt: Date;
 }
@@ -49,20 +346,51 @@ export interface IShare extends Document {
 // Audit Log Types
 export type AuditAction = 
   | 'file_upload'
+  | 'file_upload_rejected'
+  | 'file_quarantined'
   | 'file_download'
   | 'file_delete'
   | 'file_share_user'
   | 'file_share_link'
   | 'share_revoke'
   | 'share_access'
-  | 'file_view';
+  | 'file_view'
+  | 'two_factor_enroll'
+  | 'two_factor_disable'
+  | 'two_factor_challenge_failed'
+  | 'login_failed'
+  | 'login_locked'
+  | 'admin_user_disable'
+  | 'admin_user_enable'
+  | 'admin_role_change'
+  | 'admin_password_reset'
+  | 'admin_quota_change'
+  | 'account_deletion_request'
+  | 'account_deletion_cancel'
+  | 'account_purge'
+  | 'account_export'
+  | 'workspace_create'
+  | 'workspace_delete'
+  | 'workspace_member_add'
+  | 'workspace_member_update'
+  | 'workspace_member_remove'
+  | 'folder_create'
+  | 'folder_move'
+  | 'folder_delete'
+  | 'file_move'
+  | 'file_metadata_update'
+  | 'file_version_upload'
+  | 'file_version_restore'
+  | 'file_restore'
+  | 'file_purge';
 
 export interface IAuditLog extends Document {
   _id: Types.ObjectId;
-  user: Types.ObjectId;
+  user?: Types.ObjectId; // Not set for attempts against unknown accounts
   action: AuditAction;
   file?: Types.ObjectId;
   share?: Types.ObjectId;
+  workspace?: Types.ObjectId;
   details?: Record<string, unknown>;
   ipAddress?: string;
   userAgent?: string;
@@ -72,6 +400,8 @@ export interface IAuditLog extends Document {
 // Request Types
 export interface AuthRequest extends Request {
   user?: IUser;
+  sessionId?: string;
+  tokenScopes?: TokenScope[]; // Set when authenticated with a personal access token
 }
 
 // API Response Types
@@ -0,0 +1,201 @@
+import fs from 'fs';
+
+export interface DetectedFileType {
+  mimeType: string;
+  extensions: string[]; // Extensions this content may legitimately carry
+}
+
+interface Signature {
+  bytes: string | number[];
+  offset?: number;
+  weak?: boolean; // Short enough to start ordinary text, so only trusted for binary content
+  type: DetectedFileType;
+}
+
+// Enough to see the first entries of a zip (Office documents) and ftyp brands
+const SAMPLE_SIZE = 8192;
+
+const type = (mimeType: string, ...extensions: string[]): DetectedFileType => ({ mimeType, extensions });
+
+const SIGNATURES: Signature[] = [
+  { bytes: '%PDF-', type: type('application/pdf', '.pdf') },
+  { bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], type: type('image/png', '.png') },
+  { bytes: [0xff, 0xd8, 0xff], type: type('image/jpeg', '.jpg', '.jpeg') },
+  { bytes: 'GIF87a', type: type('image/gif', '.gif') },
+  { bytes: 'GIF89a', type: type('image/gif', '.gif') },
+  { bytes: 'WEBP', offset: 8, type: type('image/webp', '.webp') },
+  { bytes: 'WAVE', offset: 8, type: type('audio/wav', '.wav') },
+  { bytes: 'AVI ', offset: 8, type: type('video/x-msvideo', '.avi') },
+  { bytes: [0x49, 0x49, 0x2a, 0x00], type: type('image/tiff', '.tif', '.tiff') },
+  { bytes: [0x4d, 0x4d, 0x00, 0x2a], type: type('image/tiff', '.tif', '.tiff') },
+  { bytes: 'BM', weak: true, type: type('image/bmp', '.bmp') },
+  { bytes: [0x00, 0x00, 0x01, 0x00], type: type('image/x-icon', '.ico') },
+  { bytes: 'ID3', type: type('audio/mpeg', '.mp3') },
+  { bytes: 'OggS', type: type('audio/ogg', '.ogg', '.oga', '.ogv', '.opus') },
+  { bytes: 'fLaC', type: type('audio/flac', '.flac') },
+  { bytes: [0x1a, 0x45, 0xdf, 0xa3], type: type('video/webm', '.webm', '.mkv') },
+  { bytes: [0x1f, 0x8b], type: type('application/gzip', '.gz', '.tgz') },
+  { bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c], type: type('application/x-7z-compressed', '.7z') },
+  { bytes: 'Rar!', type: type('application/vnd.rar', '.rar') },
+  { bytes: 'ustar', offset: 257, type: type('application/x-tar', '.tar') },
+  { bytes: '{\\rtf', type: type('application/rtf', '.rtf') },
+  // Executables, so a renamed binary is reported as what it is
+  { bytes: 'MZ', weak: true, type: type('application/x-msdownload', '.exe', '.dll') },
+  { bytes: [0x7f, 0x45, 0x4c, 0x46], type: type('application/x-executable') },
+  { bytes: [0xfe, 0xed, 0xfa, 0xce], type: type('application/x-mach-binary') },
+  { bytes: [0xfe, 0xed, 0xfa, 0xcf], type: type('application/x-mach-binary') },
+  { bytes: [0xce, 0xfa, 0xed, 0xfe], type: type('application/x-mach-binary') },
+  { bytes: [0xcf, 0xfa, 0xed, 0xfe], type: type('application/x-mach-binary') },
+  { bytes: [0xca, 0xfe, 0xba, 0xbe], type: type('application/x-mach-binary', '.class') }
+];
+
+// ISO base media (ftyp box) brands
+const FTYP_TYPES: Record<string, DetectedFileType> = {
+  avif: type('image/avif', '.avif'),
+  avis: type('image/avif', '.avif'),
+  heic: type('image/heic', '.heic'),
+  heix: type('image/heic', '.heic'),
+  mif1: type('image/heif', '.heif', '.heic'),
+  'qt  ': type('video/quicktime', '.mov'),
+  'M4A ': type('audio/mp4', '.m4a'),
+  'M4V ': type('video/mp4', '.m4v', '.mp4')
+};
+
+const MP4 = type('video/mp4', '.mp4', '.m4v', '.m4a', '.mov');
+
+const OOXML_TYPES: Record<string, DetectedFileType> = {
+  'word/': type('application/vnd.openxmlformats-officedocument.wordprocessingml.document', '.docx'),
+  'xl/': type('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', '.xlsx'),
+  'ppt/': type('application/vnd.openxmlformats-officedocument.presentationml.presentation', '.pptx')
+};
+
+// Legacy Office files share one container format
+const CFB_MIME_TYPES: Record<string, string> = {
+  '.doc': 'application/msword',
+  '.xls': 'application/vnd.ms-excel',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.msg': 'application/vnd.ms-outlook'
+};
+
+const TEXT_MIME_TYPES: Record<string, string> = {
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.tsv': 'text/tab-separated-values',
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.log': 'text/plain',
+  '.svg': 'image/svg+xml'
+};
+
+const matches = (buffer: Buffer, bytes: string | number[], offset = 0): boolean => {
+  const expected = typeof bytes === 'string' ? Buffer.from(bytes, 'latin1') : Buffer.from(bytes);
+  return buffer.length >= offset + expected.length
+    && buffer.subarray(offset, offset + expected.length).equals(expected);
+};
+
+/**
+ * Plain text: no NUL bytes and almost no other control characters.
+ * Works for UTF-8 as well as legacy single-byte encodings.
+ */
+const isText = (buffer: Buffer): boolean => {
+  let control = 0;
+  
+  for (const byte of buffer) {
+    if (byte === 0) return false;
+    if (byte < 0x20 && ![0x09, 0x0a, 0x0c, 0x0d, 0x1b].includes(byte)) control++;
+  }
+  
+  return control <= buffer.length / 100;
+};
+
+/**
+ * Identify zip-based formats from the entry names near the start of the archive
+ */
+const detectZip = (buffer: Buffer): DetectedFileType => {
+  const sample = buffer.toString('latin1');
+  
+  if (sample.includes('[Content_Types].xml')) {
+    for (const [prefix, officeType] of Object.entries(OOXML_TYPES)) {
+      if (sample.includes(prefix)) return officeType;
+    }
+    return type(
+      'application/vnd.openxmlformats-officedocument',
+      ...Object.values(OOXML_TYPES).flatMap((officeType) => officeType.extensions)
+    );
+  }
+  
+  return type('application/zip', '.zip');
+};
+
+/**
+ * Detect a file's real type from its leading bytes. The extension only
+ * picks between formats that share a container (legacy Office, text).
+ * Returns null for content with no known signature.
+ */
+export const detectFileType = async (
+  filePath: string,
+  extension: string
+): Promise<DetectedFileType | null> => {
+  const handle = await fs.promises.open(filePath, 'r');
+  let buffer = Buffer.alloc(SAMPLE_SIZE);
+  
+  try {
+    const { bytesRead } = await handle.read(buffer, 0, SAMPLE_SIZE, 0);
+    buffer = buffer.subarray(0, bytesRead);
+  } finally {
+    await handle.close();
+  }
+  
+  if (matches(buffer, 'PK\x03\x04') || matches(buffer, 'PK\x05\x06')) {
+    return detectZip(buffer);
+  }
+  
+  if (matches(buffer, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) {
+    return type(CFB_MIME_TYPES[extension] || 'application/x-cfb', ...Object.keys(CFB_MIME_TYPES));
+  }
+  
+  if (matches(buffer, 'ftyp', 4)) {
+    return FTYP_TYPES[buffer.toString('latin1', 8, 12)] || MP4;
+  }
+  
+  const signature = SIGNATURES.find((candidate) =>
+    !candidate.weak && matches(buffer, candidate.bytes, candidate.offset)
+  );
+  if (signature) {
+    return signature.type;
+  }
+  
+  if (isText(buffer)) {
+    return type(TEXT_MIME_TYPES[extension] || 'text/plain', ...Object.keys(TEXT_MIME_TYPES));
+  }
+  
+  const weakSignature = SIGNATURES.find((candidate) =>
+    candidate.weak && matches(buffer, candidate.bytes, candidate.offset)
+  );
+  if (weakSignature) {
+    return weakSignature.type;
+  }
+  
+  // MPEG audio frame without an ID3 tag
+  if (buffer.length >= 2 && buffer[0] === 0xff && (buffer[1] & 0xe0) === 0xe0) {
+    return type('audio/mpeg', '.mp3');
+  }
+  
+  return null;
+};
+
+/**
+ * Extensions whose real content always carries a recognisable signature.
+ * Files claiming one of these with unrecognised content are mismatches.
+ */
+export const hasKnownSignature = (extension: string): boolean => {
+  return [
+    ...SIGNATURES.flatMap((signature) => signature.type.extensions),
+    ...Object.values(FTYP_TYPES).flatMap((ftypType) => ftypType.extensions),
+    ...MP4.extensions,
+    ...Object.values(OOXML_TYPES).flatMap((officeType) => officeType.extensions),
+    ...Object.keys(CFB_MIME_TYPES),
+    '.zip'
+  ].includes(extension);
+};
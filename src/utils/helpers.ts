@@ -1,25 +1,100 @@
 import jwt, { SignOptions } from 'jsonwebtoken';
+import crypto from 'crypto';
 import { v4 as uuidv4 } from 'uuid';
 import { IUser } from '../types';
 
 /**
- * Generate JWT token for user
+ * Get access token lifetime
  */
-export const generateToken = (user: IUser): string => {
+export const getAccessTokenExpiresIn = (): string => {
+  return process.env.JWT_EXPIRES_IN || '15m';
+};
+
+/**
+ * Generate short-lived JWT access token for a user session
+ */
+export const generateToken = (user: IUser, sessionId: string): string => {
   const jwtSecret = process.env.JWT_SECRET || 'default-secret-change-in-production';
-  const expiresIn = process.env.JWT_EXPIRES_IN || '7d';
   
   const options: SignOptions = { 
-    expiresIn: expiresIn as jwt.SignOptions['expiresIn'] 
+    expiresIn: getAccessTokenExpiresIn() as jwt.SignOptions['expiresIn'] 
   };
   
   return jwt.sign(
-    { userId: user._id.toString() },
+    { userId: user._id.toString(), sid: sessionId },
     jwtSecret,
     options
   );
 };
 
+/**
+ * Generate a short-lived token proving the password step of a two-step login
+ */
+export const generateChallengeToken = (user: IUser): string => {
+  const jwtSecret = process.env.JWT_SECRET || 'default-secret-change-in-production';
+  
+  return jwt.sign(
+    { userId: user._id.toString(), purpose: 'two_factor' },
+    jwtSecret,
+    { expiresIn: '5m' }
+  );
+};
+
+/**
+ * Verify a two-factor challenge token and return its user ID
+ */
+export const verifyChallengeToken = (token: string): string | null => {
+  const jwtSecret = process.env.JWT_SECRET || 'default-secret-change-in-production';
+  
+  try {
+    const decoded = jwt.verify(token, jwtSecret) as { userId: string; purpose?: string };
+    return decoded.purpose === 'two_factor' ? decoded.userId : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Generate a short-lived token tying an SSO login state to the browser that started it
+ */
+export const generateOidcStateToken = (state: string, expiresInSeconds: number): string => {
+  const jwtSecret = process.env.JWT_SECRET || 'default-secret-change-in-production';
+  
+  return jwt.sign(
+    { state, purpose: 'oidc_state' },
+    jwtSecret,
+    { expiresIn: expiresInSeconds }
+  );
+};
+
+/**
+ * Check that an SSO state token was issued for the given state
+ */
+export const verifyOidcStateToken = (token: string, state: string): boolean => {
+  const jwtSecret = process.env.JWT_SECRET || 'default-secret-change-in-production';
+  
+  try {
+    const decoded = jwt.verify(token, jwtSecret) as { state?: string; purpose?: string };
+    return decoded.purpose === 'oidc_state' && decoded.state === state;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Generate a random opaque token (refresh tokens, reset tokens, etc.)
+ */
+export const generateSecureToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString('hex');
+};
+
+/**
+ * Hash an opaque token for storage
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
+
 /**
  * Generate unique share link token
  */
@@ -85,6 +160,13 @@ export const isExpired = (date: Date | null | undefined): boolean => {
   return new Date() > date;
 };
 
+/**
+ * Escape user input for use inside a regular expression
+ */
+export const escapeRegex = (value: string): string => {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+};
+
 /**
  * Sanitize filename for safe storage
  */
@@ -102,11 +184,3 @@ export const getBaseUrl = (): string => {
   return process.env.BASE_URL || 'http://localhost:5000';
 };
 
-/**
- * Generate file URL
- */
-export const generateFileUrl = (filename: string): string => {
-  const baseUrl = getBaseUrl();
-  return `${baseUrl}/uploads/${filename}`;
-};
-
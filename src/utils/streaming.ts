@@ -0,0 +1,249 @@
+import { Request, Response } from 'express';
+import { Readable } from 'stream';
+import { IThumbnail, ScanStatus, StorageDriverName, ThumbnailFormat } from '../types';
+import { getStorage } from '../storage';
+import { getThumbnailKey, getThumbnailMimeType, pickThumbnail } from '../services/thumbnailService';
+import { getScanRefusal } from '../services/scanService';
+
+export interface StoredFile {
+  storage: StorageDriverName;
+  filename: string;
+  mimeType: string;
+  originalName: string;
+  scanStatus: ScanStatus;
+}
+
+export interface ThumbnailSource {
+  storage: StorageDriverName;
+  hash: string;
+  thumbnails: IThumbnail[];
+}
+
+/**
+ * Pipe a storage stream, dropping the connection if the read fails
+ */
+const pipeStream = (res: Response, stream: Readable): void => {
+  stream
+    .on('error', (error) => {
+      console.error('Stream error:', error);
+      res.destroy(error);
+    })
+    .pipe(res);
+};
+
+/**
+ * Whether to redirect clients to signed URLs on backends that support them
+ */
+const useSignedUrls = (): boolean => {
+  return process.env.STORAGE_SIGNED_URLS === 'true';
+};
+
+/**
+ * Reply 404 for files whose content is missing from storage
+ */
+const sendMissing = (res: Response): void => {
+  res.status(404).json({
+    success: false,
+    error: 'File not found on server'
+  });
+};
+
+/**
+ * Reply 403 for files that have not been found clean by the malware scanner
+ */
+const sendScanRefusal = (res: Response, file: StoredFile): void => {
+  res.status(403).json({
+    success: false,
+    error: getScanRefusal(file.scanStatus)
+  });
+};
+
+/**
+ * Serve a file inline with HTTP Range support (206 Partial Content).
+ * Returns the first byte offset served, or null if nothing was streamed.
+ */
+export const streamFileInline = async (
+  req: Request,
+  res: Response,
+  file: StoredFile
+): Promise<number | null> => {
+  if (file.scanStatus !== 'clean') {
+    sendScanRefusal(res, file);
+    return null;
+  }
+  
+  const storage = getStorage(file.storage);
+  const stat = await storage.stat(file.filename);
+  
+  if (!stat) {
+    sendMissing(res);
+    return null;
+  }
+  
+  const ranges = req.headers.range ? req.range(stat.size, { combine: true }) : undefined;
+  const start = Array.isArray(ranges) && ranges.length === 1 ? ranges[0].start : 0;
+  
+  // Object stores serve ranges themselves
+  if (storage.getSignedUrl && useSignedUrls()) {
+    res.redirect(await storage.getSignedUrl(file.filename, {
+      filename: file.originalName,
+      contentType: file.mimeType,
+      inline: true
+    }));
+    return start;
+  }
+  
+  res.setHeader('Accept-Ranges', 'bytes');
+  res.setHeader('Content-Type', file.mimeType || 'application/octet-stream');
+  res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(file.originalName)}`);
+  // User content must not run scripts on the API origin
+  res.setHeader('Content-Security-Policy', "default-src 'none'; sandbox");
+  res.setHeader('Cache-Control', 'private, no-cache');
+  
+  // Malformed or multi-part ranges: serve the whole file
+  if (ranges === undefined || ranges === -2 || (Array.isArray(ranges) && ranges.length !== 1)) {
+    res.setHeader('Content-Length', stat.size.toString());
+    pipeStream(res, await storage.getStream(file.filename));
+    return 0;
+  }
+  
+  if (ranges === -1 || ranges.type !== 'bytes') {
+    res.setHeader('Content-Range', `bytes */${stat.size}`);
+    res.status(416).end();
+    return null;
+  }
+  
+  const { end } = ranges[0];
+  
+  res.status(206);
+  res.setHeader('Content-Range', `bytes ${start}-${end}/${stat.size}`);
+  res.setHeader('Content-Length', (end - start + 1).toString());
+  pipeStream(res, await storage.getStream(file.filename, { start, end }));
+  
+  return start;
+};
+
+/**
+ * Send a file as an attachment, or redirect to a signed URL when enabled.
+ * Returns false if the content is missing from storage or not clean.
+ */
+export const sendFileDownload = async (
+  res: Response,
+  file: StoredFile
+): Promise<boolean> => {
+  if (file.scanStatus !== 'clean') {
+    sendScanRefusal(res, file);
+    return false;
+  }
+  
+  const storage = getStorage(file.storage);
+  const stat = await storage.stat(file.filename);
+  
+  if (!stat) {
+    sendMissing(res);
+    return false;
+  }
+  
+  if (storage.getSignedUrl && useSignedUrls()) {
+    res.redirect(await storage.getSignedUrl(file.filename, {
+      filename: file.originalName,
+      contentType: file.mimeType
+    }));
+    return true;
+  }
+  
+  res.attachment(file.originalName);
+  res.setHeader('Content-Type', file.mimeType || 'application/octet-stream');
+  res.setHeader('Content-Length', stat.size.toString());
+  pipeStream(res, await storage.getStream(file.filename));
+  
+  return true;
+};
+
+/**
+ * Send the thumbnail closest to ?size= (default 256) in ?format=, or the
+ * best format the client accepts. Thumbnails are revalidated by ETag.
+ */
+export const sendThumbnail = async (
+  req: Request,
+  res: Response,
+  file: ThumbnailSource
+): Promise<void> => {
+  const size = req.query.size === undefined ? 256 : Number(req.query.size);
+  
+  if (!Number.isInteger(size) || size < 1) {
+    res.status(400).json({
+      success: false,
+      error: 'Size must be a positive whole number of pixels'
+    });
+    return;
+  }
+  
+  let format: ThumbnailFormat;
+  if (req.query.format === 'webp' || req.query.format === 'jpeg') {
+    format = req.query.format;
+  } else {
+    format = req.accepts(['image/webp', 'image/jpeg']) === 'image/jpeg' ? 'jpeg' : 'webp';
+    res.setHeader('Vary', 'Accept');
+  }
+  
+  const thumbnail = pickThumbnail(file.thumbnails, size, format);
+  
+  if (!thumbnail) {
+    res.status(404).json({
+      success: false,
+      error: 'No thumbnail available for this file'
+    });
+    return;
+  }
+  
+  const key = getThumbnailKey(file.hash, thumbnail.size, thumbnail.format);
+  const etag = `"${file.hash}-${thumbnail.size}-${thumbnail.format}"`;
+  const storage = getStorage(file.storage);
+  
+  res.setHeader('ETag', etag);
+  res.setHeader('Cache-Control', 'private, no-cache');
+  
+  if (req.headers['if-none-match'] === etag) {
+    res.status(304).end();
+    return;
+  }
+  
+  if (storage.getSignedUrl && useSignedUrls()) {
+    res.redirect(await storage.getSignedUrl(key, {
+      contentType: getThumbnailMimeType(thumbnail.format),
+      inline: true
+    }));
+    return;
+  }
+  
+  res.setHeader('Content-Type', getThumbnailMimeType(thumbnail.format));
+  res.setHeader('Content-Length', thumbnail.bytes.toString());
+  pipeStream(res, await storage.getStream(key));
+};
+
+/**
+ * Send a stored avatar image. Avatar names change with every upload,
+ * so responses can be cached indefinitely.
+ */
+export const sendAvatarImage = async (
+  res: Response,
+  storageName: StorageDriverName,
+  key: string
+): Promise<void> => {
+  const storage = getStorage(storageName);
+  const stat = await storage.stat(key);
+  
+  if (!stat) {
+    res.status(404).json({
+      success: false,
+      error: 'Avatar not found'
+    });
+    return;
+  }
+  
+  res.setHeader('Content-Type', 'image/webp');
+  res.setHeader('Content-Length', stat.size.toString());
+  res.setHeader('Cache-Control', 'public, max-age=31536000, immutable');
+  pipeStream(res, await storage.getStream(key));
+};